@@ -1,11 +1,36 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import dynamic from 'next/dynamic'
 import FileUpload from '@/components/FileUpload'
 import ActionSelector from '@/components/ActionSelector'
+import ColumnMapper from '@/components/ColumnMapper'
+import DataQualityReport from '@/components/DataQualityReport'
+import JiraImport from '@/components/JiraImport'
+import PasteData from '@/components/PasteData'
+import RecentDatasets from '@/components/RecentDatasets'
+import SourceFiles from '@/components/SourceFiles'
 import DarkModeToggle from '@/components/DarkModeToggle'
 import { ThemeProvider } from '@/contexts/ThemeContext'
+import { DEFAULT_WORKING_CALENDAR } from '@/lib/calendar'
+import { DEFAULT_CYCLE_TIME_SETTINGS } from '@/lib/cycleTime'
+import { isJiraExport } from '@/lib/jira'
+import { DEFAULT_MONTE_CARLO_SETTINGS } from '@/lib/monteCarlo'
+import { DEFAULT_PROCESS_BEHAVIOUR_SETTINGS } from '@/lib/processBehaviour'
+import {
+  AnalysisSettings,
+  createDatasetId,
+  deleteDataset,
+  describeTables,
+  getActiveDatasetId,
+  listDatasets,
+  loadDataset,
+  SavedDataset,
+  saveDataset,
+  saveTables,
+  setActiveDatasetId
+} from '@/lib/storage'
+import { allRows, buildWorkItems, ColumnMapping, detectColumnMapping, ImportOptions, RawTable, WorkItemDataset } from '@/lib/workItems'
 
 const CycleTimeAnalysis = dynamic(
   () => import('@/components/CycleTimeAnalysis'),
@@ -30,11 +55,123 @@ const MonteCarloAnalysis = dynamic(
 export type AnalysisAction = 'cycle-time' | 'process-behaviour' | 'correlation' | 'monte-carlo' | null
 
 export default function Home() {
-  const [csvData, setCsvData] = useState<any[]>([])
+  const [pendingJira, setPendingJira] = useState<RawTable[] | null>(null)
+  const [tables, setTables] = useState<RawTable[]>([])
+  const [isAddingFiles, setIsAddingFiles] = useState(false)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [options, setOptions] = useState<ImportOptions | null>(null)
+  const [dataset, setDataset] = useState<WorkItemDataset | null>(null)
   const [selectedAction, setSelectedAction] = useState<AnalysisAction>(null)
+  const [datasetId, setDatasetId] = useState<string | null>(null)
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>({})
+  const [recentDatasets, setRecentDatasets] = useState<SavedDataset[]>([])
+  const [storageError, setStorageError] = useState<string | null>(null)
 
-  const handleFileUpload = (data: any[]) => {
-    setCsvData(data)
+  // Saving is best effort: the app still works if the browser refuses storage
+  const handleStorageError = useCallback((err: unknown) => {
+    console.error(err)
+    setStorageError(err instanceof Error && err.message ? err.message : 'Datasets could not be saved in this browser')
+  }, [])
+
+  const refreshRecentDatasets = useCallback(() => {
+    listDatasets().then(setRecentDatasets).catch(handleStorageError)
+  }, [handleStorageError])
+
+  const openDataset = useCallback(async (id: string) => {
+    try {
+      const saved = await loadDataset(id)
+      if (!saved) {
+        setActiveDatasetId(null)
+        return
+      }
+      const { dataset: savedDataset, tables: savedTables } = saved
+      setPendingJira(null)
+      setIsAddingFiles(false)
+      setTables(savedTables)
+      setMapping(savedDataset.mapping)
+      setOptions(savedDataset.options)
+      setDataset(savedDataset.options ? buildWorkItems(savedTables, savedDataset.mapping, savedDataset.options) : null)
+      setAnalysisSettings(savedDataset.settings)
+      setSelectedAction(null)
+      setDatasetId(id)
+      setActiveDatasetId(id)
+    } catch (err) {
+      handleStorageError(err)
+    }
+  }, [handleStorageError])
+
+  // Reopen whatever was open before the page was refreshed
+  useEffect(() => {
+    const activeId = getActiveDatasetId()
+    if (activeId) {
+      openDataset(activeId)
+    }
+    refreshRecentDatasets()
+  }, [openDataset, refreshRecentDatasets])
+
+  // Rows are saved separately so settings changes don't rewrite every file
+  useEffect(() => {
+    if (!datasetId) return
+    saveTables(datasetId, tables).catch(handleStorageError)
+  }, [datasetId, tables, handleStorageError])
+
+  useEffect(() => {
+    if (!datasetId) return
+    saveDataset({
+      id: datasetId,
+      ...describeTables(tables),
+      savedAt: Date.now(),
+      mapping,
+      options,
+      settings: analysisSettings
+    }).catch(handleStorageError)
+  }, [datasetId, tables, mapping, options, analysisSettings, handleStorageError])
+
+  const handleFileUpload = (uploadedTables: RawTable[]) => {
+    // Jira exports get their own preset step before column mapping
+    if (isJiraExport(allRows(uploadedTables))) {
+      setPendingJira(uploadedTables)
+    } else {
+      handleTablesReady(uploadedTables)
+    }
+  }
+
+  const handleTablesReady = (readyTables: RawTable[]) => {
+    const nextTables = [...tables, ...readyTables]
+    setPendingJira(null)
+    setIsAddingFiles(false)
+    setTables(nextTables)
+
+    // Files added to an existing dataset reuse its mapping; a fresh upload gets mapped first
+    if (dataset && options) {
+      setDataset(buildWorkItems(nextTables, mapping, options))
+    } else {
+      setMapping(detectColumnMapping(allRows(nextTables)))
+      setOptions(null)
+      setDataset(null)
+      setSelectedAction(null)
+    }
+
+    if (!datasetId) {
+      const id = createDatasetId()
+      setDatasetId(id)
+      setActiveDatasetId(id)
+      setAnalysisSettings({})
+    }
+  }
+
+  const handleRemoveTable = (index: number) => {
+    const nextTables = tables.filter((_, i) => i !== index)
+    setTables(nextTables)
+    if (options) {
+      setDataset(buildWorkItems(nextTables, mapping, options))
+    }
+  }
+
+  const handleMappingConfirm = (confirmedMapping: ColumnMapping, confirmedOptions: ImportOptions) => {
+    setMapping(confirmedMapping)
+    setOptions(confirmedOptions)
+    setDataset(buildWorkItems(tables, confirmedMapping, confirmedOptions))
     setSelectedAction(null)
   }
 
@@ -43,8 +180,21 @@ export default function Home() {
   }
 
   const handleReset = () => {
-    setCsvData([])
+    setPendingJira(null)
+    setTables([])
+    setIsAddingFiles(false)
+    setMapping({})
+    setOptions(null)
+    setDataset(null)
     setSelectedAction(null)
+    setDatasetId(null)
+    setActiveDatasetId(null)
+    setAnalysisSettings({})
+    refreshRecentDatasets()
+  }
+
+  const handleDeleteDataset = (id: string) => {
+    deleteDataset(id).then(refreshRecentDatasets).catch(handleStorageError)
   }
 
   return (
@@ -54,11 +204,42 @@ export default function Home() {
         <div className="container mx-auto px-4 py-8">
           <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100 mb-8">Metrics Analyzer</h1>
 
-        {csvData.length === 0 ? (
-          <FileUpload onUpload={handleFileUpload} />
+        {pendingJira !== null ? (
+          <JiraImport
+            tables={pendingJira}
+            onConfirm={handleTablesReady}
+            onSkip={() => handleTablesReady(pendingJira)}
+          />
+        ) : tables.length === 0 ? (
+          <div>
+            <div className="flex flex-col md:flex-row justify-center items-start gap-6">
+              <FileUpload onUpload={handleFileUpload} />
+              <PasteData onUpload={handleFileUpload} />
+            </div>
+            <RecentDatasets datasets={recentDatasets} onOpen={openDataset} onDelete={handleDeleteDataset} />
+            {storageError && (
+              <p className="mt-4 text-center text-sm text-red-600 dark:text-red-400">
+                Saved datasets are unavailable: {storageError}
+              </p>
+            )}
+          </div>
+        ) : dataset === null ? (
+          <ColumnMapper
+            tables={tables}
+            initialMapping={mapping}
+            initialOptions={options}
+            onConfirm={handleMappingConfirm}
+            onCancel={handleReset}
+          />
         ) : selectedAction === null ? (
           <div>
             <div className="mb-4">
+              <button
+                onClick={() => setDataset(null)}
+                className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline mr-4"
+              >
+                ← Edit column mapping
+              </button>
               <button
                 onClick={handleReset}
                 className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
@@ -66,7 +247,20 @@ export default function Home() {
                 Upload different file
               </button>
             </div>
-            <ActionSelector onActionSelect={handleActionSelect} />
+            <SourceFiles
+              tables={tables}
+              items={[...dataset.items, ...dataset.undatedItems]}
+              onRemove={handleRemoveTable}
+              onAddFiles={() => setIsAddingFiles(!isAddingFiles)}
+            />
+            {isAddingFiles && (
+              <div className="mb-6 flex flex-col md:flex-row justify-center items-start gap-6">
+                <FileUpload onUpload={handleFileUpload} compact />
+                <PasteData onUpload={handleFileUpload} />
+              </div>
+            )}
+            <DataQualityReport issues={dataset.issues} itemCount={dataset.items.length + dataset.undatedItems.length} />
+            <ActionSelector mapping={dataset.mapping} onActionSelect={handleActionSelect} />
           </div>
         ) : (
           <div>
@@ -86,19 +280,34 @@ export default function Home() {
             </div>
 
             {selectedAction === 'cycle-time' && (
-              <CycleTimeAnalysis data={csvData} />
+              <CycleTimeAnalysis
+                dataset={dataset}
+                settings={{ ...DEFAULT_CYCLE_TIME_SETTINGS, ...analysisSettings.cycleTime }}
+                onSettingsChange={cycleTime => setAnalysisSettings(prev => ({ ...prev, cycleTime }))}
+              />
             )}
 
             {selectedAction === 'process-behaviour' && (
-              <ProcessBehaviourAnalysis data={csvData} />
+              <ProcessBehaviourAnalysis
+                dataset={dataset}
+                calendar={analysisSettings.calendar ?? DEFAULT_WORKING_CALENDAR}
+                settings={{ ...DEFAULT_PROCESS_BEHAVIOUR_SETTINGS, ...analysisSettings.processBehaviour }}
+                onSettingsChange={processBehaviour => setAnalysisSettings(prev => ({ ...prev, processBehaviour }))}
+              />
             )}
 
             {selectedAction === 'correlation' && (
-              <CorrelationAnalysis data={csvData} />
+              <CorrelationAnalysis dataset={dataset} />
             )}
 
             {selectedAction === 'monte-carlo' && (
-              <MonteCarloAnalysis data={csvData} />
+              <MonteCarloAnalysis
+                dataset={dataset}
+                settings={{ ...DEFAULT_MONTE_CARLO_SETTINGS, ...analysisSettings.monteCarlo }}
+                onSettingsChange={monteCarlo => setAnalysisSettings(prev => ({ ...prev, monteCarlo }))}
+                calendar={analysisSettings.calendar ?? DEFAULT_WORKING_CALENDAR}
+                onCalendarChange={calendar => setAnalysisSettings(prev => ({ ...prev, calendar }))}
+              />
             )}
           </div>
         )}
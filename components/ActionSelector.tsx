@@ -1,43 +1,58 @@
 'use client'
 
 import { AnalysisAction } from '@/app/page'
+import { ColumnMapping, ColumnRole, COLUMN_ROLES, isRoleAvailable } from '@/lib/workItems'
 
 interface ActionSelectorProps {
+  mapping: ColumnMapping
   onActionSelect: (action: AnalysisAction) => void
 }
 
-export default function ActionSelector({ onActionSelect }: ActionSelectorProps) {
-  const actions = [
+export default function ActionSelector({ mapping, onActionSelect }: ActionSelectorProps) {
+  const definitions: Array<{ id: AnalysisAction, title: string, description: string, icon: string, requires: ColumnRole[] }> = [
     {
-      id: 'cycle-time' as AnalysisAction,
+      id: 'cycle-time',
       title: 'Cycle Time Analysis',
-      description: 'Analyze cycle times with 85th percentile visualization',
+      description: 'Analyze cycle times with a scatterplot, histogram and your choice of percentiles',
       icon: '📊',
-      available: true
+      requires: ['end', 'cycleTime']
     },
     {
-      id: 'process-behaviour' as AnalysisAction,
+      id: 'process-behaviour',
       title: 'Process Behaviour Chart',
-      description: 'Visualize process stability and predictability',
+      description: 'Check whether cycle time, throughput and WIP are stable and predictable',
       icon: '📈',
-      available: true
+      requires: ['end']
     },
     {
-      id: 'correlation' as AnalysisAction,
+      id: 'correlation',
       title: 'Correlation Analysis',
       description: 'Analyze correlation between estimates and cycle time ranges',
       icon: '📊',
-      available: true
+      requires: ['cycleTime', 'estimate']
     },
     {
-      id: 'monte-carlo' as AnalysisAction,
+      id: 'monte-carlo',
       title: 'Monte Carlo Simulation',
       description: 'Forecast delivery probabilities',
       icon: '🎲',
-      available: true
+      requires: ['end']
     }
   ]
 
+  const roleLabel = (role: ColumnRole) => role === 'cycleTime'
+    ? 'Cycle Time (or Start Date)'
+    : COLUMN_ROLES.find(r => r.role === role)?.label || role
+
+  const actions = definitions.map(action => {
+    const missing = action.requires.filter(role => !isRoleAvailable(mapping, role))
+    return {
+      ...action,
+      available: missing.length === 0,
+      missing: missing.map(roleLabel)
+    }
+  })
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-5xl mx-auto">
       {actions.map((action) => (
@@ -55,7 +70,7 @@ export default function ActionSelector({ onActionSelect }: ActionSelectorProps)
           <h3 className="text-xl font-semibold mb-2 text-gray-900 dark:text-gray-100">{action.title}</h3>
           <p className="text-gray-600 dark:text-gray-300 text-sm">{action.description}</p>
           {!action.available && (
-            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 italic">Coming soon</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 italic">Map {action.missing.join(' and ')} to enable</p>
           )}
         </button>
       ))}
@@ -0,0 +1,98 @@
+'use client'
+
+import { GrowthSource, MonteCarloSettings } from '@/lib/monteCarlo'
+
+interface BacklogFactorsEditorProps {
+  settings: MonteCarloSettings
+  onChange: (settings: MonteCarloSettings) => void
+  // Items created minus items finished per period over the sampling window,
+  // or null without a Created column
+  derivedGrowthRate: number | null
+  unit: { singular: string, plural: string }
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'
+
+const parseFactor = (value: string) => Math.max(1, Math.min(10, parseFloat(value) || 1))
+
+export default function BacklogFactorsEditor({ settings, onChange, derivedGrowthRate, unit }: BacklogFactorsEditorProps) {
+  const { splitLow, splitHigh, growthSource, growthRate } = settings
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Backlog Changes</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        Stories often split as they&apos;re worked on, and new items arrive while the backlog is burned down.
+        Each run picks a split factor between the low and high values.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className={labelClassName}>Split Factor (low)</label>
+          <input
+            type="number"
+            value={splitLow}
+            onChange={(e) => {
+              const low = parseFactor(e.target.value)
+              onChange({ ...settings, splitLow: low, splitHigh: Math.max(low, splitHigh) })
+            }}
+            className={inputClassName}
+            min="1"
+            max="10"
+            step="0.1"
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Split Factor (high)</label>
+          <input
+            type="number"
+            value={splitHigh}
+            onChange={(e) => {
+              const high = parseFactor(e.target.value)
+              onChange({ ...settings, splitHigh: high, splitLow: Math.min(splitLow, high) })
+            }}
+            className={inputClassName}
+            min="1"
+            max="10"
+            step="0.1"
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Scope Growth</label>
+          <select
+            value={growthSource}
+            onChange={(e) => onChange({ ...settings, growthSource: e.target.value as GrowthSource })}
+            className={inputClassName}
+          >
+            <option value="manual">Typed in</option>
+            <option value="created" disabled={derivedGrowthRate === null}>Created minus finished</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>New Items per {unit.singular}</label>
+          {growthSource === 'manual' ? (
+            <input
+              type="number"
+              value={growthRate}
+              onChange={(e) => onChange({ ...settings, growthRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className={inputClassName}
+              min="0"
+              step="0.1"
+            />
+          ) : (
+            <div className="px-3 py-2 text-gray-900 dark:text-gray-100">{(derivedGrowthRate ?? 0).toFixed(2)}</div>
+          )}
+        </div>
+      </div>
+      {derivedGrowthRate === null ? (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Map a Created Date column to derive scope growth from when items were created.
+        </p>
+      ) : growthSource === 'created' && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Items created minus items finished per {unit.singular}, over the same {unit.plural} the throughput is sampled from.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { CycleTimeOptions, DayCounting, DayType, DEFAULT_CYCLE_TIME_OPTIONS } from '@/lib/cycleTime'
+import { DateFormat, DATE_FORMATS, localeDateFormat } from '@/lib/dates'
+import { allRows, ColumnMapping, ColumnRole, COLUMN_ROLES, detectMappedDateFormat, DuplicatePolicy, DUPLICATE_POLICIES, getColumns, ImportOptions, RawTable, tableDateFormat } from '@/lib/workItems'
+
+interface ColumnMapperProps {
+  tables: RawTable[]
+  initialMapping: ColumnMapping
+  initialOptions: ImportOptions | null
+  onConfirm: (mapping: ColumnMapping, options: ImportOptions) => void
+  onCancel: () => void
+}
+
+const SAMPLE_SIZE = 3
+
+export default function ColumnMapper({ tables, initialMapping, initialOptions, onConfirm, onCancel }: ColumnMapperProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping)
+  // null until detected or chosen; ambiguous files wait for the user to pick
+  const [chosenDateFormat, setChosenDateFormat] = useState<DateFormat | null>(initialOptions?.dateFormat || null)
+  const [cycleTimeOptions, setCycleTimeOptions] = useState<CycleTimeOptions>({
+    dayCounting: initialOptions?.dayCounting || DEFAULT_CYCLE_TIME_OPTIONS.dayCounting,
+    dayType: initialOptions?.dayType || DEFAULT_CYCLE_TIME_OPTIONS.dayType
+  })
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>(initialOptions?.duplicatePolicy || 'latest-end')
+  const rows = useMemo(() => allRows(tables), [tables])
+  const columns = useMemo(() => getColumns(rows), [rows])
+
+  // Only the date columns matter, so other mapping changes don't re-parse every row.
+  // Each file is detected on its own, since merged files can write dates differently.
+  const { start, end, created } = mapping
+  const tableDetections = useMemo(
+    () => tables.map(table => detectMappedDateFormat(table.rows, { start, end, created })),
+    [tables, start, end, created]
+  )
+  // The first file that could be read more than one way is the one to ask about
+  const ambiguousIndex = tableDetections.findIndex(detection => detection.ambiguous)
+  const ambiguous = ambiguousIndex >= 0 ? tableDetections[ambiguousIndex] : null
+  const detectedFormat = tableDetections.find(detection => detection.format !== null)?.format ?? null
+  const dateFormat = chosenDateFormat || (ambiguous ? null : detectedFormat)
+  const detectedFormats = new Set(tableDetections.flatMap(detection => detection.candidates))
+  const unmatchedFiles = tableDetections.filter(detection => detection.candidates.length === 0 && detection.unparsed > 0).length
+  const unparsedDates = tableDetections.reduce((sum, detection) => sum + (detection.candidates.length > 0 ? detection.unparsed : 0), 0)
+  const readFormats = dateFormat
+    ? new Set(tableDetections.filter(detection => detection.format !== null).map(detection => tableDateFormat(detection, dateFormat)))
+    : new Set<DateFormat>()
+
+  const sampleValues = (column: string) =>
+    rows.map(row => row[column]).filter(Boolean).slice(0, SAMPLE_SIZE)
+
+  const handleChange = (role: ColumnRole, column: string) => {
+    if (role === 'start' || role === 'end' || role === 'created') {
+      setChosenDateFormat(null)
+    }
+    setMapping(prev => {
+      const next = { ...prev }
+      if (column) {
+        next[role] = column
+      } else {
+        delete next[role]
+      }
+      return next
+    })
+  }
+
+  // Every analysis needs end dates or cycle times; without date columns the
+  // date format doesn't matter
+  const hasMeasures = Boolean(mapping.end || mapping.cycleTime)
+  const importFormat = dateFormat || (start || end || created ? null : localeDateFormat())
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 max-w-5xl mx-auto">
+      <h2 className="text-2xl font-semibold mb-2 text-gray-900 dark:text-gray-100">Map Columns</h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-6">
+        Tell us which column holds each field. Analyses that need an unmapped field will be disabled.
+      </p>
+
+      {/* Detected headers */}
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Detected Columns</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">Column</th>
+                <th className="text-left py-2 font-semibold text-gray-700 dark:text-gray-300">Sample values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map(column => (
+                <tr key={column} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-4 font-medium text-gray-900 dark:text-gray-100">{column}</td>
+                  <td className="py-2 text-gray-600 dark:text-gray-300">{sampleValues(column).join(', ') || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Role assignment */}
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Fields</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {COLUMN_ROLES.map(({ role, label }) => (
+            <div key={role}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {label}
+              </label>
+              <select
+                value={mapping[role] || ''}
+                onChange={(e) => handleChange(role, e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="">— Not mapped —</option>
+                {columns.map(column => (
+                  <option key={column} value={column}>{column}</option>
+                ))}
+              </select>
+              {mapping[role] && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  e.g. {sampleValues(mapping[role]!).join(', ') || '(empty)'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Date format */}
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Date Format</h3>
+        {ambiguous && !chosenDateFormat && (
+          <div className="mb-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+            {tables.length > 1 ? `The dates in ${tables[ambiguousIndex].name}` : 'These dates'} could be read more than one way ({ambiguous.candidates.map(format => DATE_FORMATS.find(f => f.format === format)?.label).join(' or ')}). Please choose the format they use.
+          </div>
+        )}
+        {(detectedFormats.size === 0 || unmatchedFiles > 0) && (mapping.start || mapping.end) && (
+          <p className="mb-3 text-sm text-yellow-700 dark:text-yellow-300">
+            {tables.length > 1 && detectedFormats.size > 0
+              ? `Not enough dates in ${unmatchedFiles} of the files matched a single format.`
+              : 'Not enough dates matched a single format.'} Rows whose dates don&apos;t parse will be skipped.
+          </p>
+        )}
+        {unparsedDates > 0 && (
+          <p className="mb-3 text-sm text-yellow-700 dark:text-yellow-300">
+            {unparsedDates} {unparsedDates === 1 ? 'date is' : 'dates are'} not in the detected format. Rows whose dates don&apos;t parse will be skipped.
+          </p>
+        )}
+        {readFormats.size > 1 && (
+          <p className="mb-3 text-sm text-gray-600 dark:text-gray-300">
+            The files write their dates differently, so files this format can&apos;t read use their own detected format.
+          </p>
+        )}
+        <select
+          value={dateFormat || ''}
+          onChange={(e) => setChosenDateFormat(e.target.value as DateFormat)}
+          className="w-full md:w-1/2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+        >
+          <option value="" disabled>Choose a date format</option>
+          {DATE_FORMATS.map(({ format, label, example }) => (
+            <option key={format} value={format}>
+              {label} (e.g. {example}){detectedFormats.has(format) ? ' ✓' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Cycle time counting */}
+      {mapping.start && mapping.end && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Cycle Time From Dates</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+            {mapping.cycleTime
+              ? 'Start and End dates will be used to check the Cycle Time column, and to fill in blanks.'
+              : 'Cycle time will be calculated from the Start and End dates.'}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Day Counting
+              </label>
+              <select
+                value={cycleTimeOptions.dayCounting}
+                onChange={(e) => setCycleTimeOptions(prev => ({ ...prev, dayCounting: e.target.value as DayCounting }))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="inclusive">Inclusive (same-day item = 1 day)</option>
+                <option value="exclusive">Exclusive (same-day item = 0 days)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Days Counted
+              </label>
+              <select
+                value={cycleTimeOptions.dayType}
+                onChange={(e) => setCycleTimeOptions(prev => ({ ...prev, dayType: e.target.value as DayType }))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="calendar">Calendar days</option>
+                <option value="business">Business days (Mon–Fri)</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Duplicate IDs */}
+      {mapping.id && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Duplicate IDs</h3>
+          <select
+            value={duplicatePolicy}
+            onChange={(e) => setDuplicatePolicy(e.target.value as DuplicatePolicy)}
+            className="w-full md:w-1/2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          >
+            {DUPLICATE_POLICIES.map(({ policy, label }) => (
+              <option key={policy} value={policy}>{label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!hasMeasures && (
+        <div className="mb-4 text-red-600 dark:text-red-400 text-sm">
+          Please map an End Date or Cycle Time column
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => importFormat && onConfirm(mapping, { dateFormat: importFormat, duplicatePolicy, ...cycleTimeOptions })}
+          disabled={!hasMeasures || !importFormat}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          Continue
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          Upload different file
+        </button>
+      </div>
+    </div>
+  )
+}
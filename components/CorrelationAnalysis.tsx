@@ -3,9 +3,11 @@
 import { useMemo, useState, useEffect } from 'react'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { useTheme } from '@/contexts/ThemeContext'
+import { ChartTooltipProps } from '@/lib/charts'
+import { hasCycleTime, isRoleAvailable, WorkItemDataset } from '@/lib/workItems'
 
 interface CorrelationAnalysisProps {
-  data: any[]
+  dataset: WorkItemDataset
 }
 
 interface CorrelationDataPoint {
@@ -27,7 +29,7 @@ interface CorrelationStats {
   estimateRange: string
 }
 
-export default function CorrelationAnalysis({ data }: CorrelationAnalysisProps) {
+export default function CorrelationAnalysis({ dataset }: CorrelationAnalysisProps) {
   const [isMounted, setIsMounted] = useState(false)
   const { theme } = useTheme()
 
@@ -36,31 +38,7 @@ export default function CorrelationAnalysis({ data }: CorrelationAnalysisProps)
   }, [])
 
   const { processedData, stats } = useMemo((): { processedData: CorrelationDataPoint[], stats: CorrelationStats } => {
-    const allColumns = Object.keys(data[0] || {})
-    console.log('All available columns:', allColumns)
-
-    // Find estimate column
-    let estimateColumn = allColumns.find(key =>
-      key.toLowerCase() === 'estimate' || key.toLowerCase() === 'est'
-    )
-
-    // Find cycle time column
-    let cycleTimeColumn = allColumns.find(key =>
-      key.toLowerCase() === 'ct' || key.toLowerCase() === 'cycle time'
-    )
-
-    // Find ID column
-    let idColumn = allColumns.find(key =>
-      key.toLowerCase() === 'id' || key.toLowerCase() === 'key'
-    )
-
-    console.log('Column mapping:', {
-      estimateColumn,
-      cycleTimeColumn,
-      idColumn
-    })
-
-    if (!estimateColumn || !cycleTimeColumn) {
+    if (!isRoleAvailable(dataset.mapping, 'estimate') || !isRoleAvailable(dataset.mapping, 'cycleTime')) {
       console.warn('Missing required columns for correlation analysis')
       return {
         processedData: [],
@@ -74,18 +52,18 @@ export default function CorrelationAnalysis({ data }: CorrelationAnalysisProps)
 
     // Group data by estimate value
     const groupedByEstimate = new Map<number, Array<{id: string, cycleTime: number}>>()
+    let totalItems = 0
 
-    data.forEach(row => {
-      const estimate = parseInt(row[estimateColumn])
-      const cycleTime = parseFloat(row[cycleTimeColumn])
-      const id = idColumn ? row[idColumn] : 'Unknown'
+    // Correlation doesn't need dates, so rows without an end date count too
+    const allItems = [...dataset.items, ...dataset.undatedItems]
+    allItems.filter(hasCycleTime).forEach(item => {
+      if (item.estimate === null) return
 
-      if (!isNaN(estimate) && !isNaN(cycleTime) && cycleTime > 0) {
-        if (!groupedByEstimate.has(estimate)) {
-          groupedByEstimate.set(estimate, [])
-        }
-        groupedByEstimate.get(estimate)!.push({ id, cycleTime })
+      if (!groupedByEstimate.has(item.estimate)) {
+        groupedByEstimate.set(item.estimate, [])
       }
+      groupedByEstimate.get(item.estimate)!.push({ id: item.id, cycleTime: item.cycleTime })
+      totalItems++
     })
 
     // Convert to chart data format
@@ -108,27 +86,20 @@ export default function CorrelationAnalysis({ data }: CorrelationAnalysisProps)
       })
       .sort((a, b) => a.estimate - b.estimate)
 
-    // Calculate correlation stats
-    const totalItems = estimateColumn && cycleTimeColumn ? data.filter(row =>
-      !isNaN(parseInt(row[estimateColumn])) &&
-      !isNaN(parseFloat(row[cycleTimeColumn])) &&
-      parseFloat(row[cycleTimeColumn]) > 0
-    ).length : 0
-
     return {
       processedData: chartData,
       stats: {
-        totalItems: totalItems || 0,
+        totalItems,
         uniqueEstimates: chartData.length,
         estimateRange: chartData.length > 0 ?
           `${chartData[0].estimate} - ${chartData[chartData.length - 1].estimate}` : 'N/A'
       }
     }
-  }, [data])
+  }, [dataset])
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload, label }: ChartTooltipProps<CorrelationDataPoint>) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload as CorrelationDataPoint
+      const data = payload[0].payload
       return (
         <div className="bg-white p-4 border-2 border-gray-300 rounded shadow-lg">
           <p className="font-bold text-blue-600">Estimate: {label}</p>
@@ -1,253 +1,252 @@
 'use client'
 
 import { useMemo, useState, useEffect } from 'react'
-import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { ScatterChart, Scatter, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
 import { useTheme } from '@/contexts/ThemeContext'
+import { ChartTooltipProps } from '@/lib/charts'
+import { CycleTimeSettings, interpolatedPercentile } from '@/lib/cycleTime'
+import { formatDate } from '@/lib/dates'
+import { downloadTextFile, tableToCsv, tableToTsv } from '@/lib/export'
+import { categoryColumnLabel, categoryColumns, categoryOf, defaultCategoryColumn, hasCycleTime, WorkItemDataset } from '@/lib/workItems'
 
 interface CycleTimeAnalysisProps {
-  data: any[]
+  dataset: WorkItemDataset
+  settings: CycleTimeSettings
+  onSettingsChange: (settings: CycleTimeSettings) => void
 }
 
 interface ProcessedDataPoint {
   key: string
   endDate: number
   cycleTime: number
-  itemName: string
   itemId: string
   originalEndDate: string
+  derivedCycleTime: number | null
+  cycleTimeMismatch: boolean
+  source: string
+  // Value of the groupBy column, empty when not grouping
+  group: string
 }
 
-export default function CycleTimeAnalysis({ data }: CycleTimeAnalysisProps) {
-  const [isMounted, setIsMounted] = useState(false)
-  const { theme } = useTheme()
-
-  useEffect(() => {
-    setIsMounted(true)
-  }, [])
-
-  const { processedData, percentile85, stats } = useMemo(() => {
-    // First, let's see what columns we have
-    const allColumns = Object.keys(data[0] || {})
-    console.log('All available columns:', allColumns)
+interface HistogramBucket {
+  days: number
+  count: number
+  // Items per category, when grouping
+  counts: Record<string, number>
+  // Share of items finished within this many days
+  cumulative: number
+}
 
-    // PRIORITY 1: Specific column mapping for this CSV structure
-    // Columns: ID (string), Start (date), End (date), CT (int), Estimate (int)
+interface GroupStats {
+  group: string
+  count: number
+  average: number
+  percentiles: number[]
+}
 
-    let endDateColumn = allColumns.find(key =>
-      key.toLowerCase() === 'end' || key.toLowerCase() === 'end date'
-    )
+interface PercentileLine {
+  key: string
+  label: string
+  value: number
+  color: string
+}
 
-    let cycleTimeColumn = allColumns.find(key =>
-      key.toLowerCase() === 'ct' || key.toLowerCase() === 'cycle time'
-    )
+// Percentile lines cycle through these in the order they are listed
+const PERCENTILE_COLORS = {
+  light: ['#2563eb', '#7c3aed', '#059669', '#dc2626', '#d97706'],
+  dark: ['#60a5fa', '#a78bfa', '#34d399', '#f87171', '#fbbf24']
+}
 
-    let idColumn = allColumns.find(key =>
-      key.toLowerCase() === 'id' || key.toLowerCase() === 'key'
-    )
+// Categories take these in sorted order, so a category keeps its colour when others are hidden.
+// There's one for each of the MAX_CATEGORIES a column can have.
+const CATEGORY_COLORS = {
+  light: [
+    '#22c55e', '#2563eb', '#dc2626', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#4b5563', '#ea580c',
+    '#0d9488', '#4f46e5', '#be123c', '#a16207', '#9333ea', '#0369a1', '#c026d3', '#15803d', '#78716c', '#b45309'
+  ],
+  dark: [
+    '#34d399', '#60a5fa', '#f87171', '#fbbf24', '#a78bfa', '#22d3ee', '#f472b6', '#a3e635', '#9ca3af', '#fb923c',
+    '#2dd4bf', '#818cf8', '#fb7185', '#facc15', '#c084fc', '#38bdf8', '#e879f9', '#4ade80', '#d6d3d1', '#fdba74'
+  ]
+}
 
-    console.log('PRIORITY 1 - Specific column mapping:', {
-      endDateColumn,
-      cycleTimeColumn,
-      idColumn
-    })
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100'
+const linkButtonClassName = 'text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline'
 
-    // PRIORITY 2: Fallback to automatic detection ONLY if specific columns not found
-    if (!endDateColumn || !cycleTimeColumn) {
-      console.log('Running fallback automatic detection...')
-
-      for (const col of allColumns) {
-        const sampleValues = data.slice(0, 5).map(row => row[col]).filter(Boolean)
-        console.log(`Column "${col}" sample values:`, sampleValues)
-
-        // Check if this looks like a date column
-        if (!endDateColumn) {
-          const isDateColumn = sampleValues.some(val => {
-            const str = val.toString().trim()
-            const datePattern = /^\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}$/
-            return datePattern.test(str)
-          })
-
-          if (isDateColumn) {
-            endDateColumn = col
-            console.log(`AUTO-DETECTED date column: ${col}`)
-          }
-        }
+const ordinal = (value: number) => {
+  const tens = value % 100
+  if (tens >= 11 && tens <= 13) return `${value}th`
+  return `${value}${['th', 'st', 'nd', 'rd'][value % 10] ?? 'th'}`
+}
 
-        // Check if this looks like a cycle time column
-        if (!cycleTimeColumn) {
-          const isCycleTimeColumn = sampleValues.every(val => {
-            const num = parseFloat(val)
-            return !isNaN(num) && num >= 0 && num <= 100 // stricter range to avoid "Estimate"
-          })
-
-          if (isCycleTimeColumn) {
-            cycleTimeColumn = col
-            console.log(`AUTO-DETECTED cycle time column: ${col}`)
-          }
-        }
-      }
-    }
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length || 0
 
-    // Use ID as name column
-    const nameColumn = idColumn
+export default function CycleTimeAnalysis({ dataset, settings, onSettingsChange }: CycleTimeAnalysisProps) {
+  const [isMounted, setIsMounted] = useState(false)
+  const [newPercentile, setNewPercentile] = useState('')
+  const { theme } = useTheme()
 
-    console.log('FINAL Column mapping results:', {
-      endDateColumn,
-      cycleTimeColumn,
-      idColumn,
-      nameColumn,
-      allColumns
-    })
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
 
-    // Validate we got the right columns and show sample data
-    if (cycleTimeColumn) {
-      const sampleCTs = data.slice(0, 5).map(row => ({
-        id: idColumn ? row[idColumn] : 'Unknown',
-        ct: row[cycleTimeColumn]
+  const groupColumns = useMemo(() => categoryColumns(dataset), [dataset])
+  // The saved column may not exist in this dataset
+  const groupBy = settings.groupBy === undefined
+    ? defaultCategoryColumn(dataset, groupColumns)
+    : settings.groupBy && groupColumns.includes(settings.groupBy) ? settings.groupBy : null
+  const isHidden = (group: string) => groupBy !== null && settings.hiddenGroups.includes(group)
+
+  const { processedData, groups, histogram, percentiles, groupStats, stats } = useMemo(() => {
+    const processed: ProcessedDataPoint[] = dataset.items
+      .filter(hasCycleTime)
+      .map(item => ({
+        key: item.key,
+        endDate: item.endDate,
+        cycleTime: item.cycleTime,
+        itemId: item.id,
+        originalEndDate: item.originalEndDate,
+        derivedCycleTime: item.derivedCycleTime,
+        cycleTimeMismatch: item.cycleTimeMismatch,
+        source: item.source,
+        group: groupBy ? categoryOf(item, groupBy, dataset.mapping) : ''
       }))
-      console.log('Sample cycle time data:', sampleCTs)
-    }
 
-    // Process the data
-    const processed: ProcessedDataPoint[] = data
-      .filter(row => endDateColumn && cycleTimeColumn && row[endDateColumn] && row[cycleTimeColumn])
-      .map((row, index): ProcessedDataPoint | null => {
-        const dateString = row[endDateColumn!].toString().trim()
-        const itemId = idColumn ? row[idColumn] : 'Unknown'
-
-        let dateValue: Date
-
-        // Parse DD/MM/YYYY format carefully
-        const parts = dateString.split(/[-/]/)
-        if (parts.length === 3) {
-          const day = parseInt(parts[0].trim(), 10)
-          const month = parseInt(parts[1].trim(), 10)
-          const year = parseInt(parts[2].trim(), 10)
-
-          // Validate parts are reasonable
-          if (day >= 1 && day <= 31 && month >= 1 && month <= 12 && year >= 2020 && year <= 2030) {
-            // Create date with month-1 (0-indexed)
-            dateValue = new Date(year, month - 1, day)
-
-            // Debug specific problematic dates
-            if (itemId === 'DF-73') {
-              console.log(`DF-73 DEBUG:`)
-              console.log(`  Original dateString: "${dateString}"`)
-              console.log(`  Parsed: day=${day}, month=${month}, year=${year}`)
-              console.log(`  Created date: ${dateValue.toISOString()}`)
-              console.log(`  Timestamp: ${dateValue.getTime()}`)
-              console.log(`  Formatted back: ${day.toString().padStart(2, '0')}/${month.toString().padStart(2, '0')}/${year}`)
-            }
-          } else {
-            console.warn(`Invalid date parts for ${itemId}: ${day}/${month}/${year}`)
-            return null
-          }
-        } else {
-          console.warn(`Unexpected date format for ${itemId}: ${dateString}`)
-          return null
-        }
+    const allGroups = Array.from(new Set(processed.map(item => item.group))).sort((a, b) => a.localeCompare(b))
+    // Hidden categories are filtered out of the histogram and stats as well as the scatter
+    const visible = processed.filter(item => groupBy === null || !settings.hiddenGroups.includes(item.group))
+    const cycleTimes = visible.map(item => item.cycleTime).sort((a, b) => a - b)
 
-        // Final validation
-        if (isNaN(dateValue.getTime())) {
-          console.warn(`Final validation failed for ${itemId}: ${dateString}`)
-          return null
-        }
+    // One bucket per whole day from the quickest item to the slowest, gaps included
+    const buckets: HistogramBucket[] = []
+    if (cycleTimes.length > 0) {
+      let finished = 0
+      for (let days = Math.floor(cycleTimes[0]); days <= Math.ceil(cycleTimes[cycleTimes.length - 1]); days++) {
+        const inBucket = visible.filter(item => Math.round(item.cycleTime) === days)
+        const counts: Record<string, number> = {}
+        inBucket.forEach(item => { counts[item.group] = (counts[item.group] ?? 0) + 1 })
+        finished += inBucket.length
+        buckets.push({ days, count: inBucket.length, counts, cumulative: finished / cycleTimes.length })
+      }
+    }
 
+    const byGroup: GroupStats[] = groupBy === null ? [] : allGroups
+      .filter(group => !settings.hiddenGroups.includes(group))
+      .map(group => {
+        const groupTimes = visible.filter(item => item.group === group).map(item => item.cycleTime).sort((a, b) => a - b)
         return {
-          key: `${itemId}-${index}`,
-          endDate: dateValue.getTime(),
-          cycleTime: parseFloat(row[cycleTimeColumn!]) || 0,
-          itemName: nameColumn ? row[nameColumn] || 'Unknown' : 'Unknown',
-          itemId: idColumn ? row[idColumn] : (nameColumn ? row[nameColumn] || 'Unknown' : 'Unknown'),
-          originalEndDate: dateString
+          group,
+          count: groupTimes.length,
+          average: average(groupTimes),
+          percentiles: settings.percentiles.map(percentile => interpolatedPercentile(groupTimes, percentile))
         }
       })
-      .filter((item): item is ProcessedDataPoint => item !== null && !isNaN(item.endDate) && item.cycleTime > 0)
-      .sort((a, b) => a.endDate - b.endDate)
-
-    // Debug the date range
-    if (processed.length > 0) {
-      const minDate = Math.min(...processed.map(d => d.endDate))
-      const maxDate = Math.max(...processed.map(d => d.endDate))
-
-      console.log('Processed date range:',
-        new Date(processed[0].endDate).toLocaleDateString('en-GB'),
-        'to',
-        new Date(processed[processed.length - 1].endDate).toLocaleDateString('en-GB')
-      )
-      console.log('Domain values:', {
-        min: minDate,
-        max: maxDate,
-        minDate: new Date(minDate).toLocaleDateString('en-GB'),
-        maxDate: new Date(maxDate).toLocaleDateString('en-GB')
-      })
-      console.log('First few timestamps:', processed.slice(0, 3).map(p => ({
-        id: p.itemId,
-        date: new Date(p.endDate).toLocaleDateString('en-GB'),
-        timestamp: p.endDate
-      })))
-    }
-
-    // Calculate 85th percentile with proper interpolation
-    const cycleTimes = processed.map(item => item.cycleTime).sort((a, b) => a - b)
-    let p85 = 0
-    if (cycleTimes.length > 0) {
-      const index = (cycleTimes.length - 1) * 0.85
-      const lower = Math.floor(index)
-      const upper = Math.ceil(index)
-      const weight = index % 1
-
-      p85 = lower === upper
-        ? cycleTimes[lower]
-        : cycleTimes[lower] * (1 - weight) + cycleTimes[upper] * weight
-
-      console.log('85th percentile calculation:', {
-        totalItems: cycleTimes.length,
-        rawIndex: index,
-        lowerIndex: lower,
-        upperIndex: upper,
-        lowerValue: cycleTimes[lower],
-        upperValue: cycleTimes[upper],
-        interpolationWeight: weight,
-        result: p85,
-        oldMethod: cycleTimes[Math.floor(cycleTimes.length * 0.85)] || 0
-      })
-    }
-
-    // Calculate additional stats
-    const avgCycleTime = cycleTimes.reduce((a, b) => a + b, 0) / cycleTimes.length || 0
-    const minCycleTime = Math.min(...cycleTimes)
-    const maxCycleTime = Math.max(...cycleTimes)
 
     return {
       processedData: processed,
-      percentile85: p85,
+      groups: allGroups,
+      histogram: buckets,
+      percentiles: settings.percentiles.map(percentile => ({
+        percentile,
+        value: interpolatedPercentile(cycleTimes, percentile)
+      })),
+      groupStats: byGroup,
       stats: {
-        count: processed.length,
-        average: avgCycleTime,
-        min: minCycleTime,
-        max: maxCycleTime,
-        p85: p85
+        count: visible.length,
+        average: average(cycleTimes),
+        min: cycleTimes[0] ?? 0,
+        max: cycleTimes[cycleTimes.length - 1] ?? 0
       }
     }
-  }, [data])
+  }, [dataset, groupBy, settings.hiddenGroups, settings.percentiles])
 
-  const formatXAxis = (tickItem: number) => {
-    const date = new Date(tickItem)
-    return `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getFullYear()}`
+  const formatXAxis = (tickItem: number) => formatDate(tickItem)
+  const percentileColor = (index: number) => {
+    const colors = PERCENTILE_COLORS[theme === 'dark' ? 'dark' : 'light']
+    return colors[index % colors.length]
+  }
+  const groupColor = (group: string) => {
+    const colors = CATEGORY_COLORS[theme === 'dark' ? 'dark' : 'light']
+    return colors[Math.max(0, groups.indexOf(group)) % colors.length]
   }
 
-  const CustomTooltip = ({ active, payload }: any) => {
+  // Per category lines take the category's colour, so they match its dots
+  const percentileLines: PercentileLine[] = groupBy && settings.percentilesByGroup
+    ? groupStats.flatMap(stats => settings.percentiles.map((percentile, index) => ({
+        key: `${stats.group}-${percentile}`,
+        label: `${stats.group} ${ordinal(percentile)}`,
+        value: stats.percentiles[index],
+        color: groupColor(stats.group)
+      })))
+    : percentiles.map(({ percentile, value }, index) => ({
+        key: String(percentile),
+        label: ordinal(percentile),
+        value,
+        color: percentileColor(index)
+      }))
+
+  const addPercentile = () => {
+    const percentile = parseInt(newPercentile)
+    if (isNaN(percentile) || percentile < 1 || percentile > 99 || settings.percentiles.includes(percentile)) return
+    onSettingsChange({ ...settings, percentiles: [...settings.percentiles, percentile].sort((a, b) => a - b) })
+    setNewPercentile('')
+  }
+
+  const toggleGroup = (group: string) => {
+    onSettingsChange({
+      ...settings,
+      hiddenGroups: settings.hiddenGroups.includes(group)
+        ? settings.hiddenGroups.filter(hidden => hidden !== group)
+        : [...settings.hiddenGroups, group]
+    })
+  }
+
+  const groupTable = [
+    [groupBy ?? '', 'Items', 'Average', ...settings.percentiles.map(ordinal)],
+    ...groupStats.map(row => [
+      row.group,
+      String(row.count),
+      row.average.toFixed(1),
+      ...row.percentiles.map(value => value.toFixed(1))
+    ])
+  ]
+
+  const copyGroupTable = () => {
+    navigator.clipboard.writeText(tableToTsv(groupTable)).catch(err => console.error(err))
+  }
+
+  const CustomTooltip = ({ active, payload }: ChartTooltipProps<ProcessedDataPoint>) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload
       return (
         <div className="bg-white dark:bg-gray-800 p-3 border-2 border-gray-300 dark:border-gray-600 rounded shadow-lg">
           <p className="font-bold text-blue-600 dark:text-blue-400">ID: {data.itemId}</p>
+          {groupBy && <p className="text-sm text-gray-700 dark:text-gray-300">{groupBy}: {data.group}</p>}
           <p className="font-semibold text-lg text-gray-900 dark:text-gray-100">{data.cycleTime} days</p>
-          {data.itemName !== data.itemId && (
-            <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{data.itemName}</p>
-          )}
           <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Completed: {data.originalEndDate}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">From: {data.source}</p>
+          {data.cycleTimeMismatch && (
+            <p className="text-xs text-orange-600 dark:text-orange-400 font-semibold mt-1">
+              ⚠ Start/End dates give {data.derivedCycleTime} days
+            </p>
+          )}
+        </div>
+      )
+    }
+    return null
+  }
+
+  const HistogramTooltip = ({ active, payload }: ChartTooltipProps<HistogramBucket>) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload
+      return (
+        <div className="bg-white dark:bg-gray-800 p-3 border-2 border-gray-300 dark:border-gray-600 rounded shadow-lg">
+          <p className="font-bold text-blue-600 dark:text-blue-400">{data.days} days</p>
+          <p className="text-sm text-gray-900 dark:text-gray-100">{data.count} items</p>
+          {groupBy && Object.entries(data.counts).map(([group, count]) => (
+            <p key={group} className="text-sm" style={{ color: groupColor(group) }}>{group}: {count}</p>
+          ))}
+          <p className="text-xs text-gray-500 dark:text-gray-400">{(data.cumulative * 100).toFixed(1)}% finished within {data.days} days</p>
         </div>
       )
     }
@@ -258,62 +257,278 @@ export default function CycleTimeAnalysis({ data }: CycleTimeAnalysisProps) {
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
       <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-gray-100">Cycle Time Analysis</h2>
 
-      <div className="h-96 w-full">
-        {isMounted && processedData.length > 0 ? (
-          <ResponsiveContainer width="100%" height={384}>
-            <ScatterChart
-              width={800}
-              height={384}
-              data={processedData}
-              margin={{ top: 20, right: 20, bottom: 60, left: 60 }}
-              key={`chart-${processedData.length}`}>
-              <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
-              <XAxis
-                dataKey="endDate"
-                type="number"
-                scale="time"
-                domain={['dataMin', 'dataMax']}
-                tickFormatter={formatXAxis}
-                label={{ value: 'End Date', position: 'insideBottom', offset: -10 }}
-                angle={-45}
-                textAnchor="end"
-                height={80}
-                tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
-              />
-              <YAxis
-                dataKey="cycleTime"
-                label={{ value: 'Cycle Time (days)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: theme === 'dark' ? '#d1d5db' : '#6b7280' } }}
-                tick={{ fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
-              />
-              <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
-              <ReferenceLine
-                y={percentile85}
-                stroke={theme === 'dark' ? '#60a5fa' : '#2563eb'}
-                strokeWidth={2}
-                strokeDasharray="5 5"
-                label={{ value: `85th Percentile`, position: "top", offset: 10 }}
-              />
-              <Scatter
-                data={processedData}
-                fill={theme === 'dark' ? '#34d399' : '#22c55e'}
+      {/* Grouping */}
+      {groupColumns.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Colour By</label>
+            <select
+              value={groupBy ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, groupBy: e.target.value || null, hiddenGroups: [] })}
+              className={inputClassName}
+            >
+              <option value="">None</option>
+              {groupColumns.map(column => (
+                <option key={column} value={column}>{categoryColumnLabel(dataset.mapping, column)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mb-2">
+              <input
+                type="checkbox"
+                checked={settings.percentilesByGroup}
+                disabled={!groupBy}
+                onChange={(e) => onSettingsChange({ ...settings, percentilesByGroup: e.target.checked })}
               />
-            </ScatterChart>
-          </ResponsiveContainer>
-        ) : (
-          <div className="flex flex-col items-center justify-center h-full">
-            <p className="text-gray-500 dark:text-gray-400">
-              {!isMounted ? 'Loading chart...' : 'No data to display'}
-            </p>
-            {!isMounted && (
-              <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">Chart data: {processedData.length} items</p>
-            )}
+              Percentile lines per category
+            </label>
           </div>
-        )}
+        </div>
+      )}
+
+      {/* Percentile Lines */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <span className="font-medium text-gray-700 dark:text-gray-300">Percentile lines:</span>
+        {settings.percentiles.map(percentile => (
+          <span key={percentile} className="inline-flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+            {ordinal(percentile)}
+            <button
+              onClick={() => onSettingsChange({ ...settings, percentiles: settings.percentiles.filter(p => p !== percentile) })}
+              className="text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+              aria-label={`Remove ${ordinal(percentile)} percentile`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="number"
+          value={newPercentile}
+          onChange={(e) => setNewPercentile(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addPercentile()}
+          placeholder="e.g. 90"
+          className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          min="1"
+          max="99"
+        />
+        <button onClick={addPercentile} className={linkButtonClassName}>
+          Add
+        </button>
       </div>
 
-      <div className="mt-4 text-sm text-gray-600 dark:text-gray-300">
-        <p>The 85th percentile line indicates that 85% of items complete within {percentile85.toFixed(1)} days or less.</p>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="h-96 w-full lg:col-span-2">
+          {isMounted && processedData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={384}>
+              <ScatterChart
+                width={800}
+                height={384}
+                data={processedData}
+                margin={{ top: 20, right: 20, bottom: 60, left: 60 }}
+                key={`chart-${processedData.length}`}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis
+                  dataKey="endDate"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatXAxis}
+                  label={{ value: 'End Date', position: 'insideBottom', offset: -10 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                  tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                />
+                <YAxis
+                  dataKey="cycleTime"
+                  label={{ value: 'Cycle Time (days)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: theme === 'dark' ? '#d1d5db' : '#6b7280' } }}
+                  tick={{ fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                />
+                <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+                {percentileLines.map(line => (
+                  <ReferenceLine
+                    key={line.key}
+                    y={line.value}
+                    stroke={line.color}
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    label={{ value: `${line.label}: ${line.value.toFixed(1)}d`, position: 'insideTopRight', fill: line.color }}
+                  />
+                ))}
+                {groupBy ? (
+                  groups.map(group => (
+                    <Scatter
+                      key={group}
+                      name={group}
+                      data={processedData.filter(item => item.group === group)}
+                      fill={groupColor(group)}
+                      hide={isHidden(group)}
+                    />
+                  ))
+                ) : (
+                  <Scatter
+                    data={processedData}
+                    fill={theme === 'dark' ? '#34d399' : '#22c55e'}
+                  />
+                )}
+                {groupBy && (
+                  <Legend
+                    verticalAlign="top"
+                    onClick={(entry) => toggleGroup(String(entry.value))}
+                    wrapperStyle={{ cursor: 'pointer' }}
+                  />
+                )}
+              </ScatterChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">
+                {!isMounted ? 'Loading chart...' : 'No data to display'}
+              </p>
+              {!isMounted && (
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">Chart data: {processedData.length} items</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Histogram */}
+        <div className="h-96 w-full">
+          {isMounted && histogram.length > 0 ? (
+            <ResponsiveContainer width="100%" height={384}>
+              <BarChart
+                data={histogram}
+                margin={{ top: 20, right: 20, bottom: 60, left: 20 }}
+                key={`histogram-${histogram.length}`}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis
+                  dataKey="days"
+                  label={{ value: 'Cycle Time (days)', position: 'insideBottom', offset: -10 }}
+                  height={80}
+                  tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  label={{ value: 'Items', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: theme === 'dark' ? '#d1d5db' : '#6b7280' } }}
+                  tick={{ fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                />
+                <Tooltip content={<HistogramTooltip />} />
+                {/* Buckets are whole days, so each line sits on its nearest day */}
+                {percentileLines.map(line => (
+                  <ReferenceLine
+                    key={line.key}
+                    x={Math.round(line.value)}
+                    stroke={line.color}
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                  />
+                ))}
+                {groupBy ? (
+                  groups.filter(group => !isHidden(group)).map(group => (
+                    <Bar
+                      key={group}
+                      name={group}
+                      dataKey={(bucket: HistogramBucket) => bucket.counts[group] ?? 0}
+                      stackId="histogram"
+                      fill={groupColor(group)}
+                      isAnimationActive={false}
+                    />
+                  ))
+                ) : (
+                  <Bar
+                    dataKey="count"
+                    fill={theme === 'dark' ? '#34d399' : '#22c55e'}
+                    isAnimationActive={false}
+                  />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">
+                {!isMounted ? 'Loading chart...' : 'No data to display'}
+              </p>
+            </div>
+          )}
+        </div>
       </div>
+
+      {/* Statistics */}
+      {stats.count > 0 && (
+        <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+            <div className="font-semibold text-gray-700 dark:text-gray-300">Items</div>
+            <div className="text-lg font-bold text-blue-600 dark:text-blue-400">{stats.count}</div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+            <div className="font-semibold text-gray-700 dark:text-gray-300">Average</div>
+            <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.average.toFixed(1)} days</div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+            <div className="font-semibold text-gray-700 dark:text-gray-300">Min</div>
+            <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.min} days</div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+            <div className="font-semibold text-gray-700 dark:text-gray-300">Max</div>
+            <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.max} days</div>
+          </div>
+          {percentiles.map(({ percentile, value }, index) => (
+            <div key={percentile} className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+              <div className="font-semibold text-gray-700 dark:text-gray-300">{ordinal(percentile)} Percentile</div>
+              <div className="text-lg font-bold" style={{ color: percentileColor(index) }}>{value.toFixed(1)} days</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per Category */}
+      {groupStats.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">By {groupBy}</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                {groupTable[0].map(header => (
+                  <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groupTable.slice(1).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b border-gray-100 dark:border-gray-700">
+                  {row.map((cell, index) => (
+                    <td key={index} className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                      {index === 0 && (
+                        <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: groupColor(cell) }} />
+                      )}
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-4 mt-3">
+            <button onClick={copyGroupTable} className={linkButtonClassName}>
+              Copy table
+            </button>
+            <button onClick={() => downloadTextFile('cycle-time-by-category.csv', tableToCsv(groupTable))} className={linkButtonClassName}>
+              Download CSV
+            </button>
+          </div>
+        </div>
+      )}
+
+      {percentiles.length > 0 && (
+        <div className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+          <p>
+            Each percentile line shows the cycle time that share of items finished within, e.g. {percentiles[percentiles.length - 1].percentile}% of
+            items completed in {percentiles[percentiles.length - 1].value.toFixed(1)} days or less.
+            {groupBy && ' Click a category in the legend to hide it from the charts and stats.'}
+          </p>
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { DataIssue, IssueSeverity } from '@/lib/workItems'
+
+interface DataQualityReportProps {
+  issues: DataIssue[]
+  itemCount: number
+}
+
+export default function DataQualityReport({ issues, itemCount }: DataQualityReportProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [filter, setFilter] = useState<IssueSeverity | 'all'>('all')
+
+  const skippedCount = issues.filter(issue => issue.severity === 'skipped').length
+  const warningCount = issues.length - skippedCount
+  const showSource = new Set(issues.map(issue => issue.sourceIndex)).size > 1
+  // Files that share a name are told apart by their position in the upload list
+  const filesByName = new Map<string, Set<number | null>>()
+  issues.forEach(issue => {
+    if (issue.source !== null) filesByName.set(issue.source, (filesByName.get(issue.source) ?? new Set()).add(issue.sourceIndex))
+  })
+  const describeSource = (issue: DataIssue) => {
+    if (issue.source === null) return '—'
+    const shared = (filesByName.get(issue.source)?.size ?? 0) > 1
+    return shared && issue.sourceIndex !== null ? `${issue.source} (file ${issue.sourceIndex + 1})` : issue.source
+  }
+  const visibleIssues = filter === 'all' ? issues : issues.filter(issue => issue.severity === filter)
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4 max-w-5xl mx-auto">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="font-semibold text-gray-900 dark:text-gray-100">{itemCount}</span> work items loaded
+          {skippedCount > 0 && (
+            <span className="text-red-600 dark:text-red-400"> · {skippedCount} rows skipped</span>
+          )}
+          {warningCount > 0 && (
+            <span className="text-orange-600 dark:text-orange-400"> · {warningCount} warnings</span>
+          )}
+          {issues.length === 0 && (
+            <span className="text-green-600 dark:text-green-400"> · no data quality issues found</span>
+          )}
+        </div>
+        {issues.length > 0 && (
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+          >
+            {isOpen ? 'Hide data quality report' : 'Show data quality report'}
+          </button>
+        )}
+      </div>
+
+      {isOpen && issues.length > 0 && (
+        <div className="mt-4">
+          <div className="flex gap-2 mb-3 text-sm">
+            {(['all', 'skipped', 'warning'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                className={`px-3 py-1 rounded-md border ${
+                  filter === option
+                    ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                {option === 'all' ? `All (${issues.length})` : option === 'skipped' ? `Skipped (${skippedCount})` : `Warnings (${warningCount})`}
+              </button>
+            ))}
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  {showSource && (
+                    <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">File</th>
+                  )}
+                  <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">Line</th>
+                  <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">ID</th>
+                  <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">Status</th>
+                  <th className="text-left py-2 font-semibold text-gray-700 dark:text-gray-300">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleIssues.map((issue, index) => (
+                  <tr key={index} className="border-b border-gray-100 dark:border-gray-700">
+                    {showSource && (
+                      <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{describeSource(issue)}</td>
+                    )}
+                    <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{issue.line ?? '—'}</td>
+                    <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{issue.itemId ?? '—'}</td>
+                    <td className={`py-2 pr-4 font-medium ${
+                      issue.severity === 'skipped' ? 'text-red-600 dark:text-red-400' : 'text-orange-600 dark:text-orange-400'
+                    }`}>
+                      {issue.severity === 'skipped' ? 'Skipped' : 'Warning'}
+                    </td>
+                    <td className="py-2 text-gray-600 dark:text-gray-300">{issue.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,39 +1,86 @@
 'use client'
 
 import { useState, useCallback } from 'react'
-import Papa from 'papaparse'
+import type { Workbook } from 'exceljs'
+import { ACCEPTED_EXTENSIONS, detectFileFormat, readTextFile, readWorkbook, sheetNames, sheetToTable } from '@/lib/fileFormats'
+import { RawTable } from '@/lib/workItems'
 
 interface FileUploadProps {
-  onUpload: (data: any[]) => void
+  onUpload: (tables: RawTable[]) => void
+  compact?: boolean
 }
 
-export default function FileUpload({ onUpload }: FileUploadProps) {
+// Tables read so far, while multi-sheet workbooks wait for a sheet to be picked
+interface PendingUpload {
+  tables: RawTable[]
+  workbooks: Array<{ fileName: string, workbook: Workbook }>
+}
+
+export default function FileUpload({ onUpload, compact = false }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingUpload | null>(null)
+
+  const continueUpload = useCallback((upload: PendingUpload) => {
+    if (upload.workbooks.length > 0) {
+      setPending(upload)
+      return
+    }
 
-  const handleFile = useCallback((file: File) => {
-    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-      setError('Please upload a CSV file')
+    setPending(null)
+    const tables = upload.tables.filter(table => table.rows.length > 0)
+    if (tables.length === 0) {
+      setError(prev => prev || 'No rows found in file')
       return
     }
+    onUpload(tables)
+  }, [onUpload])
+
+  const handleSheetSelect = useCallback((sheetName: string) => {
+    if (!pending) return
+    const [{ fileName, workbook }, ...remaining] = pending.workbooks
+    try {
+      const table = sheetToTable(workbook, sheetName, fileName)
+      continueUpload({ tables: [...pending.tables, table], workbooks: remaining })
+    } catch (err) {
+      setError(`${fileName}: ${err instanceof Error && err.message ? err.message : 'error reading sheet'}`)
+      setPending(null)
+      console.error(err)
+    }
+  }, [pending, continueUpload])
 
-    Papa.parse(file, {
-      header: true,
-      complete: (result) => {
-        if (result.errors.length > 0) {
-          setError('Error parsing CSV file')
-          console.error(result.errors)
+  const handleFiles = useCallback(async (files: File[]) => {
+    const upload: PendingUpload = { tables: [], workbooks: [] }
+    const errors: string[] = []
+
+    for (const file of files) {
+      const format = detectFileFormat(file)
+      if (!format) {
+        errors.push(`${file.name}: please upload a CSV, TSV, Excel or JSON file`)
+        continue
+      }
+
+      try {
+        if (format === 'xlsx') {
+          const workbook = await readWorkbook(file)
+          const names = sheetNames(workbook)
+          if (names.length === 1) {
+            upload.tables.push(sheetToTable(workbook, names[0], file.name))
+          } else {
+            upload.workbooks.push({ fileName: file.name, workbook })
+          }
         } else {
-          setError(null)
-          onUpload(result.data)
+          upload.tables.push(await readTextFile(file, format))
         }
-      },
-      error: (error) => {
-        setError('Error reading file')
-        console.error(error)
+      } catch (err) {
+        errors.push(`${file.name}: ${err instanceof Error && err.message ? err.message : 'error reading file'}`)
+        console.error(err)
       }
-    })
-  }, [onUpload])
+    }
+
+    setError(errors.length > 0 ? errors.join('; ') : null)
+    continueUpload(upload)
+  }, [continueUpload])
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -41,9 +88,9 @@ export default function FileUpload({ onUpload }: FileUploadProps) {
 
     const files = Array.from(e.dataTransfer.files)
     if (files.length > 0) {
-      handleFile(files[0])
+      handleFiles(files)
     }
-  }, [handleFile])
+  }, [handleFiles])
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -57,8 +104,10 @@ export default function FileUpload({ onUpload }: FileUploadProps) {
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (files && files.length > 0) {
-      handleFile(files[0])
+      handleFiles(Array.from(files))
     }
+    // Allow picking the same file again later
+    e.target.value = ''
   }
 
   return (
@@ -89,7 +138,7 @@ export default function FileUpload({ onUpload }: FileUploadProps) {
 
         <label htmlFor="file-upload" className="cursor-pointer">
           <span className="text-base font-medium text-gray-900 dark:text-gray-100">
-            Drop CSV file here
+            {compact ? 'Drop more files here' : 'Drop CSV, TSV, Excel or JSON files here'}
           </span>
           <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">or click to browse</p>
           <input
@@ -97,11 +146,31 @@ export default function FileUpload({ onUpload }: FileUploadProps) {
             name="file-upload"
             type="file"
             className="sr-only"
-            accept=".csv"
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            multiple
             onChange={handleFileInput}
           />
         </label>
 
+        {pending && pending.workbooks.length > 0 && (
+          <div className="mt-4 text-left">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Choose a sheet from {pending.workbooks[0].fileName}:
+            </p>
+            <div className="space-y-2">
+              {sheetNames(pending.workbooks[0].workbook).map(sheetName => (
+                <button
+                  key={sheetName}
+                  onClick={() => handleSheetSelect(sheetName)}
+                  className="w-full px-3 py-2 text-sm text-left border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  {sheetName}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {error && (
           <div className="mt-4 text-red-600 dark:text-red-400 text-sm">{error}</div>
         )}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { useTheme } from '@/contexts/ThemeContext'
+import { BacktestMessage, BacktestOutput, BacktestRequest, CALIBRATION_LEVELS } from '@/lib/backtest'
+import { WorkingCalendar } from '@/lib/calendar'
+import { formatDate } from '@/lib/dates'
+import { downloadTextFile, tableToCsv, tableToTsv } from '@/lib/export'
+import { randomSeed } from '@/lib/monteCarlo'
+import { SamplingSettings, ThroughputSample } from '@/lib/throughput'
+
+interface ForecastBacktestProps {
+  days: ThroughputSample[]
+  sampling: SamplingSettings
+  calendar: WorkingCalendar
+  forecastHorizon: number
+  numSimulations: number
+  seed: number | null
+  cutoffCount: number
+  onCutoffCountChange: (count: number) => void
+  unit: { singular: string, plural: string }
+}
+
+// Levels shown in the per cut-off table; the calibration covers them all
+const TABLE_LEVELS = [0.5, 0.85, 0.95]
+
+export default function ForecastBacktest({ days, sampling, calendar, forecastHorizon, numSimulations, seed, cutoffCount, onCutoffCountChange, unit }: ForecastBacktestProps) {
+  const [isMounted, setIsMounted] = useState(false)
+  const [progress, setProgress] = useState<{ completed: number, total: number } | null>(null)
+  const [backtest, setBacktest] = useState<{ request: BacktestRequest } & BacktestOutput | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const { theme } = useTheme()
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
+
+  const cancelBacktest = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(null)
+  }, [])
+
+  // Stop any backtest still running when the page goes away
+  useEffect(() => cancelBacktest, [cancelBacktest])
+
+  // Backtests replay many simulations, so they only run when asked
+  const runBacktest = () => {
+    cancelBacktest()
+    const request: BacktestRequest = {
+      days,
+      sampling,
+      calendar,
+      forecastHorizon,
+      numSimulations,
+      cutoffCount,
+      seed: seed ?? randomSeed()
+    }
+
+    const worker = new Worker(new URL('../lib/backtest.worker.ts', import.meta.url))
+    workerRef.current = worker
+    setProgress({ completed: 0, total: cutoffCount })
+
+    worker.onmessage = (event: MessageEvent<BacktestMessage>) => {
+      if (event.data.type === 'progress') {
+        setProgress({ completed: event.data.completed, total: event.data.total })
+      } else {
+        setBacktest({ request, ...event.data.output })
+        worker.terminate()
+        workerRef.current = null
+        setProgress(null)
+      }
+    }
+    worker.onerror = (event) => {
+      console.error(event)
+      worker.terminate()
+      workerRef.current = null
+      setProgress(null)
+    }
+    worker.postMessage(request)
+  }
+
+  const calibrationData = useMemo(() => (backtest?.calibration ?? []).map(point => ({
+    level: point.level * 100,
+    actual: point.hitRate * 100,
+    expected: point.level * 100
+  })), [backtest])
+
+  const table = backtest ? [
+    ['Cut-off', 'Forecast to', ...TABLE_LEVELS.map(level => `${level * 100}%`), 'Delivered', 'Chance of at least this'],
+    ...backtest.points.map(point => [
+      formatDate(point.cutoff),
+      formatDate(point.forecastEnd),
+      ...TABLE_LEVELS.map(level => String(point.forecasts[CALIBRATION_LEVELS.indexOf(level)])),
+      String(point.delivered),
+      `${(point.probability * 100).toFixed(0)}%`
+    ])
+  ] : []
+
+  const copyTable = () => {
+    navigator.clipboard.writeText(tableToTsv(table)).catch(err => console.error(err))
+  }
+
+  // Hit rates from a handful of cut-offs are noisy, so only call the forecasts
+  // optimistic or cautious when the 85% hit rate is two standard errors out
+  const verdict = useMemo(() => {
+    const at85 = backtest?.calibration.find(point => point.level === 0.85)
+    if (!backtest || !at85 || backtest.points.length === 0) return null
+    const n = backtest.points.length
+    const margin = 2 * Math.sqrt((0.85 * 0.15) / n)
+    const summary = `At 85% confidence, delivery met the forecast at ${at85.hits} of ${n} cut-offs (${(at85.hitRate * 100).toFixed(0)}%).`
+    if (at85.hitRate < 0.85 - margin) return `${summary} The forecasts have been optimistic for this team.`
+    if (at85.hitRate > 0.85 + margin) return `${summary} The forecasts have been cautious for this team.`
+    return `${summary} That is within what ${n} cut-offs can tell apart from a well calibrated forecast.`
+  }, [backtest])
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#6b7280'
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Backtest</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Replays the {forecastHorizon} {forecastHorizon === 1 ? unit.singular : unit.plural} &quot;how many&quot; forecast from past
+        cut-off dates, using only the throughput known at the time, and checks how often the items delivered afterwards met each
+        confidence level. A well calibrated forecast is met 85% of the time at 85% confidence.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Cut-off Dates</label>
+          <input
+            type="number"
+            value={cutoffCount}
+            onChange={(e) => onCutoffCountChange(Math.max(1, Math.min(100, parseInt(e.target.value) || 10)))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+            min="1"
+            max="100"
+          />
+        </div>
+        <div className="flex items-end">
+          {progress === null ? (
+            <button
+              onClick={runBacktest}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              Run Backtest
+            </button>
+          ) : (
+            <button
+              onClick={cancelBacktest}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-gray-600 dark:text-gray-100 dark:hover:bg-gray-500"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress !== null && (
+        <div className="mb-4">
+          <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded">
+            <div
+              className="h-2 bg-blue-600 dark:bg-blue-500 rounded"
+              style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Replaying cut-off {progress.completed} of {progress.total}...
+          </p>
+        </div>
+      )}
+
+      {backtest && backtest.points.length === 0 && (
+        <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+          Not enough history to backtest. Each cut-off needs at least a few {unit.plural} of sampled throughput before it and
+          a full forecast horizon of delivery after it.
+        </div>
+      )}
+
+      {backtest && backtest.points.length > 0 && (
+        <>
+          {backtest.points.length < backtest.request.cutoffCount && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+              Only {backtest.points.length} of {backtest.request.cutoffCount} cut-offs fit in the data without overlapping forecasts.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-4">
+            <div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    {['Confidence', 'Expected', 'Actual', 'Met'].map(header => (
+                      <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {backtest.calibration.map(point => (
+                    <tr key={point.level} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{point.level * 100}%</td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{point.level * 100}%</td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{(point.hitRate * 100).toFixed(0)}%</td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{point.hits} of {backtest.points.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {verdict && <p className="mt-3 text-sm text-gray-600 dark:text-gray-300">{verdict}</p>}
+            </div>
+
+            <div className="h-80 w-full">
+              {isMounted ? (
+                <ResponsiveContainer width="100%" height={320}>
+                  <LineChart data={calibrationData} margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                    <XAxis
+                      dataKey="level"
+                      type="number"
+                      domain={[50, 100]}
+                      tickFormatter={(value) => `${value}%`}
+                      label={{ value: 'Forecast confidence', position: 'insideBottom', offset: -10 }}
+                      tick={{ fontSize: 12, fill: axisColor }}
+                    />
+                    <YAxis
+                      domain={[0, 100]}
+                      tickFormatter={(value) => `${value}%`}
+                      label={{ value: 'Forecasts met', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: axisColor } }}
+                      tick={{ fill: axisColor }}
+                    />
+                    <Tooltip
+                      formatter={(value, name) => [`${Number(value).toFixed(0)}%`, name]}
+                      labelFormatter={(label) => `${label}% confidence`}
+                      contentStyle={{ backgroundColor: theme === 'dark' ? '#1f2937' : '#ffffff', borderColor: theme === 'dark' ? '#4b5563' : '#d1d5db' }}
+                    />
+                    <Legend verticalAlign="top" />
+                    <Line
+                      dataKey="expected"
+                      name="Perfectly calibrated"
+                      stroke={theme === 'dark' ? '#6b7280' : '#9ca3af'}
+                      strokeDasharray="5 5"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      dataKey="actual"
+                      name="Our forecasts"
+                      stroke={theme === 'dark' ? '#3b82f6' : '#2563eb'}
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex items-center justify-center h-full">
+                  <p className="text-gray-500 dark:text-gray-400">Loading chart...</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  {table[0].map(header => (
+                    <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.slice(1).map(row => (
+                  <tr key={row[0]} className="border-b border-gray-100 dark:border-gray-700">
+                    {row.map((cell, index) => (
+                      <td key={index} className="py-2 pr-4 text-gray-900 dark:text-gray-100">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-4 mt-3">
+            <button
+              onClick={copyTable}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+            >
+              Copy table
+            </button>
+            <button
+              onClick={() => downloadTextFile('forecast-backtest.csv', tableToCsv(table))}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+            >
+              Download CSV
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Seed {backtest.request.seed}: enter it as the simulation seed to replay this backtest.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { useTheme } from '@/contexts/ThemeContext'
+import { downloadTextFile, tableToCsv, tableToTsv } from '@/lib/export'
+import { confidenceValue } from '@/lib/monteCarlo'
+
+interface ForecastMatrixProps {
+  horizons: number[]
+  // Sorted item counts for each horizon
+  horizonResults: number[][]
+  unit: { singular: string, plural: string }
+  periodEndDate: (periods: number) => string
+  rows: number
+  step: number
+  onChange: (rows: number, step: number) => void
+}
+
+const MATRIX_LEVELS = [0.5, 0.7, 0.85, 0.95]
+
+export default function ForecastMatrix({ horizons, horizonResults, unit, periodEndDate, rows, step, onChange }: ForecastMatrixProps) {
+  const [isMounted, setIsMounted] = useState(false)
+  const { theme } = useTheme()
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
+
+  // Each band runs from a confidence level to its mirror image, so the fan
+  // narrows towards the median
+  const fanData = useMemo(() => horizons.map((horizon, index) => {
+    const results = horizonResults[index]
+    const at = (level: number) => confidenceValue(results, 'how-many', level)
+    return {
+      horizon,
+      band95: [at(0.95), at(0.05)],
+      band85: [at(0.85), at(0.15)],
+      band70: [at(0.7), at(0.3)],
+      median: at(0.5)
+    }
+  }), [horizons, horizonResults])
+
+  const table = [
+    ['Horizon', 'Ends', ...MATRIX_LEVELS.map(level => `${level * 100}%`)],
+    ...horizons.map((horizon, index) => [
+      `${horizon} ${horizon === 1 ? unit.singular : unit.plural}`,
+      periodEndDate(horizon),
+      ...MATRIX_LEVELS.map(level => String(confidenceValue(horizonResults[index], 'how-many', level)))
+    ])
+  ]
+
+  const copyTable = () => {
+    navigator.clipboard.writeText(tableToTsv(table)).catch(err => console.error(err))
+  }
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#6b7280'
+  const fanColor = theme === 'dark' ? '#3b82f6' : '#2563eb'
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Forecast Matrix</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Items completed with at least the given confidence, for each horizon from the same simulation run.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Horizons</label>
+          <input
+            type="number"
+            value={rows}
+            onChange={(e) => onChange(Math.max(1, Math.min(52, parseInt(e.target.value) || 12)), step)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+            min="1"
+            max="52"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 capitalize">
+            {unit.plural} per horizon
+          </label>
+          <input
+            type="number"
+            value={step}
+            onChange={(e) => onChange(rows, Math.max(1, Math.min(60, parseInt(e.target.value) || 1)))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+            min="1"
+            max="60"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <div className="max-h-80 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  {table[0].map(header => (
+                    <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.slice(1).map(row => (
+                  <tr key={row[0]} className="border-b border-gray-100 dark:border-gray-700">
+                    {row.map((cell, index) => (
+                      <td key={index} className="py-2 pr-4 text-gray-900 dark:text-gray-100">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-4 mt-3">
+            <button
+              onClick={copyTable}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+            >
+              Copy table
+            </button>
+            <button
+              onClick={() => downloadTextFile('forecast-matrix.csv', tableToCsv(table))}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+            >
+              Download CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="h-80 w-full">
+          {isMounted && fanData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={320}>
+              <ComposedChart data={fanData} margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis
+                  dataKey="horizon"
+                  label={{ value: `Horizon (${unit.plural})`, position: 'insideBottom', offset: -10 }}
+                  tick={{ fontSize: 12, fill: axisColor }}
+                />
+                <YAxis
+                  label={{ value: 'Items', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <Tooltip
+                  formatter={(value, name) => [Array.isArray(value) ? `${value[0]} – ${value[1]}` : value, name]}
+                  labelFormatter={(label) => `${label} ${unit.plural} (to ${periodEndDate(Number(label))})`}
+                  contentStyle={{ backgroundColor: theme === 'dark' ? '#1f2937' : '#ffffff', borderColor: theme === 'dark' ? '#4b5563' : '#d1d5db' }}
+                />
+                <Area dataKey="band95" name="5–95%" stroke="none" fill={fanColor} fillOpacity={0.15} isAnimationActive={false} />
+                <Area dataKey="band85" name="15–85%" stroke="none" fill={fanColor} fillOpacity={0.2} isAnimationActive={false} />
+                <Area dataKey="band70" name="30–70%" stroke="none" fill={fanColor} fillOpacity={0.25} isAnimationActive={false} />
+                <Line dataKey="median" name="Median" stroke={fanColor} strokeWidth={2} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">Loading chart...</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
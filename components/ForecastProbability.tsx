@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import { parseDate } from '@/lib/dates'
+import { tableToCsv, tableToTsv, downloadTextFile } from '@/lib/export'
+import { confidenceValue, ForecastMode, probabilityOf } from '@/lib/monteCarlo'
+
+interface ForecastProbabilityProps {
+  mode: ForecastMode
+  // Sorted simulation results: item counts, or periods to finish
+  results: number[]
+  // Item count, or completion date for a number of periods
+  formatValue: (value: number) => string
+  // Whole periods finished by a date, for "when" queries
+  periodsUntil: (date: number) => number
+}
+
+const TABLE_LEVELS = [0.5, 0.6, 0.7, 0.8, 0.85, 0.9, 0.95, 0.99]
+
+const formatPercent = (probability: number) => `${(probability * 100).toFixed(1)}%`
+
+export default function ForecastProbability({ mode, results, formatValue, periodsUntil }: ForecastProbabilityProps) {
+  const [query, setQuery] = useState('')
+  // Added queries: item counts in "how many" mode, timestamps otherwise
+  const [queries, setQueries] = useState<number[]>([])
+
+  const parseQuery = (text: string): number | null => {
+    if (!text) return null
+    if (mode !== 'how-many') return parseDate(text, 'iso')
+    const items = parseInt(text)
+    return isNaN(items) ? null : Math.max(0, items)
+  }
+
+  const describeQuery = (value: number) => mode === 'how-many'
+    ? { label: `${value} items`, probability: probabilityOf(results, mode, value) }
+    : { label: formatValue(periodsUntil(value)), probability: probabilityOf(results, mode, periodsUntil(value)) }
+
+  const queryValue = parseQuery(query)
+  const answer = queryValue === null ? null : describeQuery(queryValue)
+
+  const valueHeader = mode === 'how-many' ? 'At least (items)' : 'Done by'
+  const rows: string[][] = [
+    ...TABLE_LEVELS.map(level => {
+      const value = confidenceValue(results, mode, level)
+      return [`${level * 100}%`, formatValue(value), formatPercent(probabilityOf(results, mode, value))]
+    }),
+    ...queries.map(value => {
+      const { label, probability } = describeQuery(value)
+      return ['Query', label, formatPercent(probability)]
+    })
+  ]
+  const exportRows = [['Confidence', valueHeader, 'Likelihood'], ...rows]
+
+  const copyTable = () => {
+    navigator.clipboard.writeText(tableToTsv(exportRows)).catch(err => console.error(err))
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Probability Table</h3>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4 mb-4">
+        <div className="md:w-64">
+          <label htmlFor="probability-query" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            {mode === 'how-many' ? 'Chance of at least this many items' : 'Chance of finishing by'}
+          </label>
+          <input
+            id="probability-query"
+            type={mode === 'how-many' ? 'number' : 'date'}
+            min="0"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          />
+        </div>
+        <button
+          onClick={() => {
+            if (queryValue !== null) setQueries([...queries, queryValue])
+            setQuery('')
+          }}
+          disabled={queryValue === null}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          Add to table
+        </button>
+        {answer && (
+          <p className="text-sm text-gray-700 dark:text-gray-300 md:pb-2">
+            <span className="font-bold text-blue-600 dark:text-blue-400">{formatPercent(answer.probability)}</span>
+            {mode === 'how-many' ? ` chance of completing at least ${answer.label}` : ` chance of finishing by ${answer.label}`}
+          </p>
+        )}
+      </div>
+
+      <table className="min-w-full text-sm mb-3">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-700">
+            {exportRows[0].map(header => (
+              <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{header}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className={`border-b border-gray-100 dark:border-gray-700 ${index >= TABLE_LEVELS.length ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+              {row.map((cell, cellIndex) => (
+                <td key={cellIndex} className="py-2 pr-4 text-gray-900 dark:text-gray-100">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex gap-4">
+        <button
+          onClick={copyTable}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          Copy table
+        </button>
+        <button
+          onClick={() => downloadTextFile('forecast-probabilities.csv', tableToCsv(exportRows))}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          Download CSV
+        </button>
+        {queries.length > 0 && (
+          <button
+            onClick={() => setQueries([])}
+            className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+          >
+            Clear queries
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { convertJiraExport, defaultJiraSettings, describeJiraExport, JiraImportSettings } from '@/lib/jira'
+import { allRows, RawTable } from '@/lib/workItems'
+
+interface JiraImportProps {
+  tables: RawTable[]
+  onConfirm: (tables: RawTable[]) => void
+  onSkip: () => void
+}
+
+export default function JiraImport({ tables, onConfirm, onSkip }: JiraImportProps) {
+  const shape = useMemo(() => describeJiraExport(allRows(tables)), [tables])
+  const [settings, setSettings] = useState<JiraImportSettings>(() => defaultJiraSettings(allRows(tables), shape))
+
+  const converted = useMemo(() => tables.map(table => convertJiraExport(table, shape, settings)), [tables, shape, settings])
+  const convertedRows = allRows(converted)
+  const finishedCount = convertedRows.filter(row => row.End).length
+  const startedCount = convertedRows.filter(row => row.End && row.Start).length
+
+  const toggle = (field: keyof JiraImportSettings, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(v => v !== value)
+        : [...prev[field], value]
+    }))
+  }
+
+  const renderChecklist = (field: keyof JiraImportSettings, options: Array<{ value: string, hint?: string }>) => (
+    <div className="space-y-1 max-h-48 overflow-y-auto">
+      {options.map(({ value, hint }) => (
+        <label key={value} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings[field].includes(value)}
+            onChange={() => toggle(field, value)}
+            className="mr-2"
+          />
+          {value}
+          {hint && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{hint}</span>}
+        </label>
+      ))}
+    </div>
+  )
+
+  const stateOptions = shape.states.map(({ state, columns }) => ({
+    value: state,
+    hint: columns.length > 1 ? `(${columns.length} columns)` : undefined
+  }))
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 max-w-5xl mx-auto">
+      <h2 className="text-2xl font-semibold mb-2 text-gray-900 dark:text-gray-100">Jira Export Detected</h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-6">
+        Choose which workflow timestamps mark the start and finish of work. Start uses the earliest chosen
+        start timestamp; finish uses the latest chosen done timestamp.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div>
+          <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Work Started</h3>
+          {renderChecklist('startStates', stateOptions)}
+        </div>
+        <div>
+          <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Work Done</h3>
+          {renderChecklist('doneStates', stateOptions)}
+        </div>
+        {shape.statuses.length > 0 && (
+          <div>
+            <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Done Statuses</h3>
+            {renderChecklist('doneStatuses', shape.statuses.map(value => ({ value })))}
+          </div>
+        )}
+      </div>
+
+      <p className="mb-6 text-sm text-gray-600 dark:text-gray-300">
+        {finishedCount} of {convertedRows.length} issues will be imported as finished, {startedCount} with a start date.
+      </p>
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => onConfirm(converted)}
+          disabled={settings.doneStates.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          Import Jira export
+        </button>
+        <button
+          onClick={onSkip}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          Map columns manually instead
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,47 @@
 'use client'
 
-import { useMemo, useState, useEffect } from 'react'
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { useCallback, useMemo, useRef, useState, useEffect } from 'react'
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import BacklogFactorsEditor from '@/components/BacklogFactorsEditor'
+import ForecastBacktest from '@/components/ForecastBacktest'
+import ForecastMatrix from '@/components/ForecastMatrix'
+import ForecastProbability from '@/components/ForecastProbability'
+import PortfolioEditor from '@/components/PortfolioEditor'
+import PortfolioTimeline from '@/components/PortfolioTimeline'
+import ThroughputSampling from '@/components/ThroughputSampling'
+import WorkingCalendarEditor from '@/components/WorkingCalendarEditor'
 import { useTheme } from '@/contexts/ThemeContext'
+import { addWorkingDays, WorkingCalendar } from '@/lib/calendar'
+import { ChartTooltipProps } from '@/lib/charts'
+import { dayKey, formatDate, parseDate, startOfDay } from '@/lib/dates'
+import {
+  buildHistogram,
+  confidenceValue,
+  cumulativeProbabilities,
+  ForecastFrom,
+  ForecastMode,
+  HistogramBucket,
+  MAX_PERIODS,
+  MonteCarloSettings,
+  randomSeed,
+  SimulationMessage,
+  SimulationOutput,
+  SimulationRequest
+} from '@/lib/monteCarlo'
+import { granularityUnit, periodEndDate, periodsUntil, sampleThroughput, SamplingSettings, ThroughputSample, workingDayThroughput } from '@/lib/throughput'
+import { WorkItemDataset } from '@/lib/workItems'
 
 interface MonteCarloAnalysisProps {
-  data: any[]
-}
-
-interface DailyThroughput {
-  date: string
-  count: number
-  timestamp: number
-}
-
-interface SimulationResult {
-  totalItems: number
-  frequency: number
+  dataset: WorkItemDataset
+  settings: MonteCarloSettings
+  onSettingsChange: (settings: MonteCarloSettings) => void
+  calendar: WorkingCalendar
+  onCalendarChange: (calendar: WorkingCalendar) => void
 }
 
 interface SimulationStats {
   totalSimulations: number
+  seed: number
   p50: number
   p85: number
   p95: number
@@ -29,212 +50,223 @@ interface SimulationStats {
   max: number
 }
 
-export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
+// What a run's results are dated from and sampled, kept with the request so a
+// rerun or a settings change doesn't redate the results still on screen
+interface RunContext {
+  forecastStart: number
+  sampling: SamplingSettings
+  calendar: WorkingCalendar
+  samples: ThroughputSample[]
+}
+
+type SimulationRun = { request: SimulationRequest & RunContext } & SimulationOutput
+
+type ChartView = 'distribution' | 'cumulative'
+
+const FORECAST_MODES: Array<{ mode: ForecastMode, label: string }> = [
+  { mode: 'how-many', label: 'How many items?' },
+  { mode: 'when', label: 'When will it be done?' },
+  { mode: 'portfolio', label: 'Portfolio' }
+]
+
+export default function MonteCarloAnalysis({ dataset, settings, onSettingsChange, calendar, onCalendarChange }: MonteCarloAnalysisProps) {
   const [isMounted, setIsMounted] = useState(false)
-  const [numSimulations, setNumSimulations] = useState(10000)
-  const [forecastHorizon, setForecastHorizon] = useState(14)
-  const [isRunning, setIsRunning] = useState(false)
+  const { mode, numSimulations, forecastHorizon, backlogSize, seed, matrixRows, matrixStep, splitLow, splitHigh, features, allocationMode } = settings
+  // Completed runs while a simulation is in progress, otherwise null
+  const [progress, setProgress] = useState<number | null>(null)
+  const [run, setRun] = useState<SimulationRun | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const [chartView, setChartView] = useState<ChartView>('distribution')
   const { theme } = useTheme()
 
   useEffect(() => {
     setIsMounted(true)
   }, [])
 
-  const { dailyThroughput, throughputArray } = useMemo(() => {
-    const allColumns = Object.keys(data[0] || {})
-
-    // Find the end date column using the same logic as other components
-    let endDateColumn = allColumns.find(key =>
-      key.toLowerCase() === 'end' || key.toLowerCase() === 'end date'
-    )
-
-    let idColumn = allColumns.find(key =>
-      key.toLowerCase() === 'id' || key.toLowerCase() === 'key'
-    )
-
-    // Fallback detection
-    if (!endDateColumn) {
-      for (const col of allColumns) {
-        const sampleValues = data.slice(0, 5).map(row => row[col]).filter(Boolean)
-        const isDateColumn = sampleValues.some(val => {
-          const str = val.toString().trim()
-          const datePattern = /^\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}$/
-          return datePattern.test(str)
-        })
-
-        if (isDateColumn) {
-          endDateColumn = col
-          break
-        }
-      }
-    }
-
-    if (!endDateColumn) {
-      return { dailyThroughput: [], throughputArray: [] }
-    }
-
-    // Parse all end dates and group by day
-    const dateGroups: { [key: string]: number } = {}
-
-    data.forEach((row, index) => {
-      if (!row[endDateColumn!]) return
-
-      const dateString = row[endDateColumn!].toString().trim()
-      const itemId = idColumn ? row[idColumn] : `Item-${index}`
-
-      // Parse DD/MM/YYYY format
-      const parts = dateString.split(/[-/]/)
-      if (parts.length === 3) {
-        const day = parseInt(parts[0].trim(), 10)
-        const month = parseInt(parts[1].trim(), 10)
-        const year = parseInt(parts[2].trim(), 10)
-
-        if (day >= 1 && day <= 31 && month >= 1 && month <= 12 && year >= 2020 && year <= 2030) {
-          const dateValue = new Date(year, month - 1, day)
-          if (!isNaN(dateValue.getTime())) {
-            const dateKey = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
-            dateGroups[dateKey] = (dateGroups[dateKey] || 0) + 1
-          }
-        }
-      }
-    })
+  const { sampling } = settings
+  const workingDays = useMemo(
+    () => workingDayThroughput(dataset.items.map(item => item.endDate), calendar),
+    [dataset, calendar]
+  )
+  const samples = useMemo(() => sampleThroughput(workingDays, sampling), [workingDays, sampling])
+  const throughputArray = useMemo(() => samples.map(sample => sample.count), [samples])
+  const meanThroughput = throughputArray.length > 0 ? throughputArray.reduce((a, b) => a + b, 0) / throughputArray.length : 0
+  const unit = granularityUnit(sampling.granularity)
+
+  // Net scope growth per period over the sampled throughput: items created
+  // minus items finished. A steady team creates about as much as it finishes,
+  // so counting every created item would outpace throughput and never finish.
+  const derivedGrowthRate = useMemo(() => {
+    if (!dataset.mapping.created || dataset.arrivals.length === 0) return null
+    if (samples.length === 0) return 0
+    const from = samples[0].start
+    const to = samples[samples.length - 1].end
+    const created = dataset.arrivals.filter(arrival => startOfDay(arrival) >= from && startOfDay(arrival) <= to).length
+    const finished = samples.reduce((sum, sample) => sum + sample.count, 0)
+    return Math.max(0, (created - finished) / samples.length)
+  }, [dataset, samples])
+  const growthRate = settings.growthSource === 'created' ? derivedGrowthRate ?? 0 : settings.growthRate
+  // Growth that keeps up with the average throughput means the backlog never
+  // shrinks, so every run would just hit MAX_PERIODS
+  const backlogNeverShrinks = mode === 'when' && growthRate > 0 && growthRate >= meanThroughput
+
+  const startDate = useMemo(
+    () => startOfDay((settings.startDate && parseDate(settings.startDate, 'iso')) || Date.now()),
+    [settings.startDate]
+  )
 
-    // Find the complete date range (min to max) and fill in all days including zeros
-    const dateKeys = Object.keys(dateGroups)
-    if (dateKeys.length === 0) {
-      return { dailyThroughput: [], throughputArray: [] }
+  // "How many" forecasts count from today, or from the working day after the last completion
+  const lastCompletion = workingDays.length > 0 ? workingDays[workingDays.length - 1].end : null
+  const forecastStart = useMemo(() => {
+    if (mode !== 'how-many') return startDate
+    if (settings.forecastFrom === 'last-completion' && lastCompletion !== null) {
+      return addWorkingDays(lastCompletion, 1, calendar)
     }
+    return startOfDay(Date.now())
+  }, [mode, startDate, settings.forecastFrom, lastCompletion, calendar])
+
+  // A target date becomes the whole periods finished by it, and at least one
+  const targetDate = settings.targetDate ? parseDate(settings.targetDate, 'iso') : null
+  const periodsToTarget = targetDate ? periodsUntil(forecastStart, targetDate, sampling, calendar) : null
+  const horizon = periodsToTarget === null ? forecastHorizon : Math.max(1, periodsToTarget)
+
+  const cancelSimulation = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(null)
+  }, [])
 
-    // Find min and max dates
-    const timestamps = dateKeys.map(dateKey => {
-      const [year, month, day] = dateKey.split('-').map(Number)
-      return new Date(year, month - 1, day).getTime()
-    })
-
-    if (timestamps.length === 0) {
-      return { dailyThroughput: [], throughputArray: [] }
+  const runSimulation = useCallback(() => {
+    cancelSimulation()
+    if (throughputArray.length === 0 || backlogNeverShrinks || (mode === 'portfolio' && !features.some(feature => feature.items > 0))) {
+      setRun(null)
+      return
     }
 
-    const minTimestamp = Math.min(...timestamps)
-    const maxTimestamp = Math.max(...timestamps)
-
-    // Generate all days between min and max (inclusive)
-    const dailyThroughputData: DailyThroughput[] = []
-    const oneDayMs = 24 * 60 * 60 * 1000
-
-    for (let currentTimestamp = minTimestamp; currentTimestamp <= maxTimestamp; currentTimestamp += oneDayMs) {
-      const currentDate = new Date(currentTimestamp)
-      const year = currentDate.getFullYear()
-      const month = currentDate.getMonth() + 1
-      const day = currentDate.getDate()
-
-      // Create the date key in YYYY-MM-DD format to match our dateGroups
-      const dateKey = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
-
-      // Get count from dateGroups or default to 0
-      const count = dateGroups[dateKey] || 0
-
-      dailyThroughputData.push({
-        date: `${day.toString().padStart(2, '0')}/${month.toString().padStart(2, '0')}/${year}`,
-        count,
-        timestamp: currentTimestamp
-      })
+    // Without a fixed seed each run picks its own, shown with the results so it can be reused
+    const request: SimulationRequest = {
+      mode,
+      throughput: throughputArray,
+      numSimulations,
+      forecastHorizon: horizon,
+      backlogSize,
+      seed: seed ?? randomSeed(),
+      matrixHorizons: mode === 'how-many' ? Array.from({ length: matrixRows }, (_, i) => (i + 1) * matrixStep) : [],
+      splitLow,
+      splitHigh,
+      growthRate,
+      features: mode === 'portfolio' ? features : [],
+      allocationMode
     }
 
-    // Already sorted by construction, but ensure chronological order
-    dailyThroughputData.sort((a, b) => a.timestamp - b.timestamp)
-
-    // Create throughput array for simulation (includes zero days)
-    const throughputValues = dailyThroughputData.map(d => d.count)
-
-    return {
-      dailyThroughput: dailyThroughputData,
-      throughputArray: throughputValues
-    }
-  }, [data])
-
-  const { simulationResults, stats } = useMemo(() => {
-    if (throughputArray.length === 0) {
-      return {
-        simulationResults: [],
-        stats: {
-          totalSimulations: 0,
-          p50: 0,
-          p85: 0,
-          p95: 0,
-          mean: 0,
-          min: 0,
-          max: 0
-        }
+    const worker = new Worker(new URL('../lib/monteCarlo.worker.ts', import.meta.url))
+    workerRef.current = worker
+    setProgress(0)
+
+    worker.onmessage = (event: MessageEvent<SimulationMessage>) => {
+      if (event.data.type === 'progress') {
+        setProgress(event.data.completed)
+      } else {
+        setRun({ request: { ...request, forecastStart, sampling, calendar, samples }, ...event.data.output })
+        worker.terminate()
+        workerRef.current = null
+        setProgress(null)
       }
     }
+    worker.onerror = (event) => {
+      console.error(event)
+      worker.terminate()
+      workerRef.current = null
+      setProgress(null)
+    }
+    worker.postMessage(request)
+  }, [cancelSimulation, throughputArray, backlogNeverShrinks, mode, numSimulations, horizon, backlogSize, seed, matrixRows, matrixStep, splitLow, splitHigh, growthRate, features, allocationMode, forecastStart, sampling, calendar, samples])
 
-    // Run Monte Carlo simulation
-    const results: number[] = []
-
-    for (let sim = 0; sim < numSimulations; sim++) {
-      let totalItems = 0
-
-      // For each day in the forecast horizon, randomly sample from historical throughput
-      for (let day = 0; day < forecastHorizon; day++) {
-        const randomIndex = Math.floor(Math.random() * throughputArray.length)
-        totalItems += throughputArray[randomIndex]
-      }
-
-      results.push(totalItems)
+  // Re-run whenever the parameters change, abandoning any run still in progress
+  useEffect(() => {
+    runSimulation()
+    return cancelSimulation
+  }, [runSimulation, cancelSimulation])
+
+  const { simulationResults, cumulativeResults, stats } = useMemo(() => {
+    const emptyStats: SimulationStats = {
+      totalSimulations: 0,
+      seed: 0,
+      p50: 0,
+      p85: 0,
+      p95: 0,
+      mean: 0,
+      min: 0,
+      max: 0
     }
 
-    // Sort results for percentile calculation
-    results.sort((a, b) => a - b)
+    if (!run || run.results.length === 0) {
+      return { simulationResults: [], cumulativeResults: [], stats: emptyStats }
+    }
 
-    // Calculate statistics (percentiles represent "at least this many items")
-    // For confidence levels, we want the lower percentiles of the distribution
-    const p50Index = Math.floor(results.length * 0.50)  // 50% of runs exceeded this
-    const p15Index = Math.floor(results.length * 0.15)  // 85% of runs exceeded this (100-85=15)
-    const p5Index = Math.floor(results.length * 0.05)   // 95% of runs exceeded this (100-95=5)
+    const { request, results } = run
+    const confidence = (level: number) => confidenceValue(results, request.mode, level)
 
     const simulationStats: SimulationStats = {
-      totalSimulations: numSimulations,
-      p50: results[p50Index] || 0,
-      p85: results[p15Index] || 0,  // 85% confidence means 15th percentile
-      p95: results[p5Index] || 0,   // 95% confidence means 5th percentile
+      totalSimulations: request.numSimulations,
+      seed: request.seed,
+      p50: confidence(0.50),
+      p85: confidence(0.85),
+      p95: confidence(0.95),
       mean: results.reduce((sum, val) => sum + val, 0) / results.length,
-      min: results[0] || 0,
-      max: results[results.length - 1] || 0
+      min: results[0],
+      max: results[results.length - 1]
     }
 
-    // Create histogram data
-    const histogram: { [key: number]: number } = {}
-    results.forEach(result => {
-      histogram[result] = (histogram[result] || 0) + 1
-    })
-
-    const histogramData: SimulationResult[] = Object.entries(histogram)
-      .map(([totalItems, frequency]) => ({
-        totalItems: parseInt(totalItems),
-        frequency
-      }))
-      .sort((a, b) => a.totalItems - b.totalItems)
-
     return {
-      simulationResults: histogramData,
+      simulationResults: buildHistogram(results),
+      // Percentages for the S-curve
+      cumulativeResults: cumulativeProbabilities(results, request.mode)
+        .map(point => ({ value: point.value, probability: point.probability * 100 })),
       stats: simulationStats
     }
-  }, [throughputArray, numSimulations, forecastHorizon])
-
-  const runSimulation = () => {
-    setIsRunning(true)
-    // Simulate a brief delay to show the running state
-    setTimeout(() => setIsRunning(false), 100)
+  }, [run])
+
+  // Dates for the inputs, from the current settings
+  const periodEnd = (periods: number) => formatDate(periodEndDate(forecastStart, periods, sampling, calendar))
+
+  // Results describe the last finished run, which may lag behind the inputs,
+  // so they are dated from the start, sampling and calendar it ran with
+  const resultMode = run?.request.mode ?? mode
+  const resultContext: RunContext = run?.request ?? { forecastStart, sampling, calendar, samples }
+  const resultUnit = granularityUnit(resultContext.sampling.granularity)
+
+  const completionDate = (periods: number) => formatDate(periodEndDate(resultContext.forecastStart, periods, resultContext.sampling, resultContext.calendar))
+  const formatResult = (value: number) => resultMode === 'how-many' ? `${value} items` : completionDate(value)
+  const formatConfidence = (value: number) => resultMode === 'how-many' ? value : completionDate(value)
+  const confidenceCaption = resultMode === 'how-many' ? 'items or more' : 'or earlier'
+  // Most runs stuck at MAX_PERIODS leave no meaningful dates or percentiles
+  const mostlyUnfinished = run !== null && run.unfinishedRuns * 2 > run.results.length
+
+  // Plain-language answer for status updates. Whole periods end on or before
+  // the target date, so the target can be quoted when the run was made for it.
+  let statusSentence: string | null = null
+  const runSamples = resultContext.samples
+  if (run && resultMode === 'how-many' && runSamples.length > 0) {
+    const runHorizon = run.request.forecastHorizon
+    const byDate = targetDate !== null && periodsToTarget && runHorizon === horizon
+      ? formatDate(targetDate)
+      : completionDate(runHorizon)
+    statusSentence = `There is an 85% chance we finish at least ${stats.p85} items by ${byDate}, and a 50% chance of at least ${stats.p50}. ` +
+      `This forecast starts ${formatDate(resultContext.forecastStart)} and is based on ${runSamples.length} ${runSamples.length === 1 ? resultUnit.singular : resultUnit.plural} ` +
+      `of throughput from ${formatDate(runSamples[0].start)} to ${formatDate(runSamples[runSamples.length - 1].end)}.`
   }
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload }: ChartTooltipProps<HistogramBucket>) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload as SimulationResult
+      const data = payload[0].payload
       const probability = ((data.frequency / stats.totalSimulations) * 100).toFixed(2)
       return (
         <div className="bg-white dark:bg-gray-800 p-3 border-2 border-gray-300 dark:border-gray-600 rounded shadow-lg">
-          <p className="font-bold text-blue-600 dark:text-blue-400">{data.totalItems} items</p>
+          <p className="font-bold text-blue-600 dark:text-blue-400">{formatResult(data.value)}</p>
+          {resultMode !== 'how-many' && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">{data.value} {resultUnit.plural}</p>
+          )}
           <p className="text-sm text-gray-900 dark:text-gray-100">Frequency: {data.frequency}</p>
           <p className="text-sm text-gray-600 dark:text-gray-300">Probability: {probability}%</p>
         </div>
@@ -250,14 +282,14 @@ export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
         Forecast delivery probabilities based on historical throughput data using Monte Carlo simulation.
       </p>
 
-      {throughputArray.length === 0 ? (
+      {workingDays.length === 0 ? (
         <div className="text-center py-8">
           <p className="text-gray-500 dark:text-gray-400">No throughput data available. Please ensure your CSV has valid end dates.</p>
         </div>
       ) : (
         <>
           {/* Small Dataset Warning */}
-          {dailyThroughput.length < 10 && (
+          {samples.length < 10 && (
             <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
               <div className="flex items-start">
                 <div className="text-yellow-600 dark:text-yellow-400 mr-3">⚠️</div>
@@ -266,8 +298,8 @@ export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
                     Limited Historical Data
                   </h4>
                   <p className="text-sm text-yellow-700 dark:text-yellow-300">
-                    Only {dailyThroughput.length} days of historical data available. For more accurate forecasts,
-                    consider using at least 2-4 weeks of data. Current results may show unrealistic high values
+                    Only {samples.length} {unit.plural} of historical data in the sampling window. For more accurate
+                    forecasts, consider sampling at least 10. Current results may show unrealistic high values
                     due to small sample size.
                   </p>
                 </div>
@@ -276,34 +308,59 @@ export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
           )}
 
           {/* Historical Throughput Summary */}
-          <div className="mb-6">
-            <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Historical Daily Throughput</h3>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-              <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
-                <div className="font-semibold text-gray-700 dark:text-gray-300">Total Days</div>
-                <div className="text-lg font-bold text-blue-600 dark:text-blue-400">{dailyThroughput.length}</div>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
-                <div className="font-semibold text-gray-700 dark:text-gray-300">Avg Daily</div>
-                <div className="text-lg font-bold text-green-600 dark:text-green-400">
-                  {(throughputArray.reduce((a, b) => a + b, 0) / throughputArray.length).toFixed(1)}
+          {throughputArray.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Historical Throughput</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+                  <div className="font-semibold text-gray-700 dark:text-gray-300 capitalize">{unit.plural} Sampled</div>
+                  <div className="text-lg font-bold text-blue-600 dark:text-blue-400">{samples.length}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+                  <div className="font-semibold text-gray-700 dark:text-gray-300">Avg per {unit.singular}</div>
+                  <div className="text-lg font-bold text-green-600 dark:text-green-400">
+                    {meanThroughput.toFixed(1)}
+                  </div>
+                </div>
+                <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+                  <div className="font-semibold text-gray-700 dark:text-gray-300">Min per {unit.singular}</div>
+                  <div className="text-lg font-bold text-orange-600 dark:text-orange-400">{Math.min(...throughputArray)}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+                  <div className="font-semibold text-gray-700 dark:text-gray-300">Max per {unit.singular}</div>
+                  <div className="text-lg font-bold text-purple-600 dark:text-purple-400">{Math.max(...throughputArray)}</div>
                 </div>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
-                <div className="font-semibold text-gray-700 dark:text-gray-300">Min Daily</div>
-                <div className="text-lg font-bold text-orange-600 dark:text-orange-400">{Math.min(...throughputArray)}</div>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
-                <div className="font-semibold text-gray-700 dark:text-gray-300">Max Daily</div>
-                <div className="text-lg font-bold text-purple-600 dark:text-purple-400">{Math.max(...throughputArray)}</div>
               </div>
             </div>
-          </div>
+          )}
+
+          <ThroughputSampling
+            settings={sampling}
+            onChange={next => onSettingsChange({ ...settings, sampling: next })}
+            samples={samples}
+          />
+
+          <WorkingCalendarEditor calendar={calendar} onChange={onCalendarChange} />
 
           {/* Simulation Parameters */}
           <div className="mb-6">
             <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Simulation Parameters</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="flex gap-2 mb-4 text-sm">
+              {FORECAST_MODES.map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => onSettingsChange({ ...settings, mode: option.mode })}
+                  className={`px-3 py-1 rounded-md border ${
+                    mode === option.mode
+                      ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className={`grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6`}>
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Number of Simulations
@@ -311,40 +368,164 @@ export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
                 <input
                   type="number"
                   value={numSimulations}
-                  onChange={(e) => setNumSimulations(Math.max(1000, Math.min(100000, parseInt(e.target.value) || 10000)))}
+                  onChange={(e) => onSettingsChange({ ...settings, numSimulations: Math.max(1000, Math.min(100000, parseInt(e.target.value) || 10000)) })}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
                   min="1000"
                   max="100000"
                   step="1000"
                 />
               </div>
+              {mode === 'how-many' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Forecast From
+                    </label>
+                    <select
+                      value={settings.forecastFrom}
+                      onChange={(e) => onSettingsChange({ ...settings, forecastFrom: e.target.value as ForecastFrom })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                    >
+                      <option value="today">Today</option>
+                      <option value="last-completion">
+                        After last completion{lastCompletion !== null && ` (${formatDate(lastCompletion)})`}
+                      </option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Forecast Horizon ({unit.plural})
+                    </label>
+                    <input
+                      type="number"
+                      value={horizon}
+                      disabled={targetDate !== null}
+                      onChange={(e) => onSettingsChange({ ...settings, forecastHorizon: Math.max(1, Math.min(365, parseInt(e.target.value) || 14)) })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100"
+                      min="1"
+                      max="365"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Or Target Date
+                    </label>
+                    <input
+                      type="date"
+                      value={settings.targetDate ?? ''}
+                      onChange={(e) => onSettingsChange({ ...settings, targetDate: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  {mode === 'when' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Backlog Size (items)
+                      </label>
+                      <input
+                        type="number"
+                        value={backlogSize}
+                        onChange={(e) => onSettingsChange({ ...settings, backlogSize: Math.max(1, Math.min(10000, parseInt(e.target.value) || 1)) })}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                        min="1"
+                        max="10000"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Start Date
+                    </label>
+                    <input
+                      type="date"
+                      value={dayKey(startDate)}
+                      onChange={(e) => onSettingsChange({ ...settings, startDate: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                    />
+                  </div>
+                </>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Forecast Horizon (days)
+                  Seed (optional)
                 </label>
                 <input
                   type="number"
-                  value={forecastHorizon}
-                  onChange={(e) => setForecastHorizon(Math.max(1, Math.min(365, parseInt(e.target.value) || 14)))}
+                  value={seed ?? ''}
+                  onChange={(e) => onSettingsChange({ ...settings, seed: e.target.value === '' ? null : Math.abs(parseInt(e.target.value)) || 0 })}
+                  placeholder="Random"
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
-                  min="1"
-                  max="365"
+                  min="0"
                 />
               </div>
               <div className="flex items-end">
-                <button
-                  onClick={runSimulation}
-                  disabled={isRunning}
-                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
-                >
-                  {isRunning ? 'Running...' : 'Run Simulation'}
-                </button>
+                {progress === null ? (
+                  <button
+                    onClick={runSimulation}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+                  >
+                    Run Simulation
+                  </button>
+                ) : (
+                  <button
+                    onClick={cancelSimulation}
+                    className="w-full px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-gray-600 dark:text-gray-100 dark:hover:bg-gray-500"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             </div>
+            {mode === 'how-many' && targetDate !== null && (
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+                {periodsToTarget === 0
+                  ? `${formatDate(targetDate)} is less than a ${unit.singular} after the forecast starts on ${formatDate(forecastStart)}, so one ${unit.singular} is forecast.`
+                  : `${horizon} whole ${horizon === 1 ? unit.singular : unit.plural} from ${formatDate(forecastStart)} to ${periodEnd(horizon)}.`}
+              </p>
+            )}
+            {mode === 'when' && (
+              <BacklogFactorsEditor
+                settings={settings}
+                onChange={onSettingsChange}
+                derivedGrowthRate={derivedGrowthRate}
+                unit={unit}
+              />
+            )}
+            {mode === 'portfolio' && (
+              <PortfolioEditor settings={settings} onChange={onSettingsChange} />
+            )}
+            {progress !== null && (
+              <div className="mt-4">
+                <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded">
+                  <div
+                    className="h-2 bg-blue-600 dark:bg-blue-500 rounded"
+                    style={{ width: `${(progress / numSimulations) * 100}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Running {progress.toLocaleString()} of {numSimulations.toLocaleString()} simulations...
+                </p>
+              </div>
+            )}
           </div>
 
+          {backlogNeverShrinks ? (
+            <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+              The backlog never shrinks: scope grows by {growthRate.toFixed(2)} items per {unit.singular}, at least the
+              average throughput of {meanThroughput.toFixed(2)}. Lower the scope growth to get a forecast.
+            </div>
+          ) : mostlyUnfinished && run && (
+            <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+              {run.unfinishedRuns.toLocaleString()} of {run.results.length.toLocaleString()} runs hadn&apos;t finished after {MAX_PERIODS.toLocaleString()} {resultUnit.plural},
+              so there is no completion date to forecast.
+            </div>
+          )}
+
           {/* Results */}
-          {stats.totalSimulations > 0 && (
+          {stats.totalSimulations > 0 && !mostlyUnfinished && (
             <>
               {/* Statistics */}
               <div className="mb-6">
@@ -352,52 +533,174 @@ export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded border border-blue-200 dark:border-blue-800">
                     <div className="font-semibold text-blue-700 dark:text-blue-300">50% Confidence</div>
-                    <div className="text-2xl font-bold text-blue-800 dark:text-blue-200">{stats.p50}</div>
-                    <div className="text-xs text-blue-600 dark:text-blue-400">items or more (median)</div>
+                    <div className="text-2xl font-bold text-blue-800 dark:text-blue-200">{formatConfidence(stats.p50)}</div>
+                    <div className="text-xs text-blue-600 dark:text-blue-400">{confidenceCaption} (median)</div>
                   </div>
                   <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded border border-green-200 dark:border-green-800">
                     <div className="font-semibold text-green-700 dark:text-green-300">85% Confidence</div>
-                    <div className="text-2xl font-bold text-green-800 dark:text-green-200">{stats.p85}</div>
-                    <div className="text-xs text-green-600 dark:text-green-400">items or more (conservative)</div>
+                    <div className="text-2xl font-bold text-green-800 dark:text-green-200">{formatConfidence(stats.p85)}</div>
+                    <div className="text-xs text-green-600 dark:text-green-400">{confidenceCaption} (conservative)</div>
                   </div>
                   <div className="bg-purple-50 dark:bg-purple-900/20 p-4 rounded border border-purple-200 dark:border-purple-800">
                     <div className="font-semibold text-purple-700 dark:text-purple-300">95% Confidence</div>
-                    <div className="text-2xl font-bold text-purple-800 dark:text-purple-200">{stats.p95}</div>
-                    <div className="text-xs text-purple-600 dark:text-purple-400">items or more (highly confident)</div>
+                    <div className="text-2xl font-bold text-purple-800 dark:text-purple-200">{formatConfidence(stats.p95)}</div>
+                    <div className="text-xs text-purple-600 dark:text-purple-400">{confidenceCaption} (highly confident)</div>
                   </div>
                 </div>
+                {statusSentence && (
+                  <div className="mt-4 bg-gray-50 dark:bg-gray-700 p-3 rounded text-sm">
+                    <p className="text-gray-900 dark:text-gray-100">{statusSentence}</p>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(statusSentence).catch(err => console.error(err))}
+                      className="mt-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+                    >
+                      Copy for status update
+                    </button>
+                  </div>
+                )}
                 <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
                     <div className="font-semibold text-gray-700 dark:text-gray-300">Average</div>
-                    <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.mean.toFixed(1)}</div>
+                    <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.mean.toFixed(1)}{resultMode !== 'how-many' && ` ${resultUnit.plural}`}</div>
                   </div>
                   <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
                     <div className="font-semibold text-gray-700 dark:text-gray-300">Range</div>
-                    <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.min} - {stats.max}</div>
+                    <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{formatConfidence(stats.min)} - {formatConfidence(stats.max)}</div>
                   </div>
                   <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
                     <div className="font-semibold text-gray-700 dark:text-gray-300">Simulations</div>
                     <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{stats.totalSimulations.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Seed {stats.seed}: enter it to reproduce this run</div>
                   </div>
                 </div>
+
+                {run && run.unfinishedRuns > 0 && (
+                  <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+                    {run.unfinishedRuns.toLocaleString()} runs hadn&apos;t finished after {MAX_PERIODS.toLocaleString()} {resultUnit.plural}.
+                    The backlog grows almost as fast as it&apos;s worked on, so later dates are unreliable.
+                  </div>
+                )}
+
+                {run?.factorImpact && (
+                  <div className="mt-4">
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">What Moves the 85% Date</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+                      {[
+                        { label: 'Backlog as entered', periods: run.factorImpact.baseline },
+                        { label: `Splitting (×${run.request.splitLow}–${run.request.splitHigh})`, periods: run.factorImpact.split },
+                        { label: `Scope growth (${run.request.growthRate.toFixed(2)} per ${resultUnit.singular})`, periods: run.factorImpact.growth },
+                        { label: 'Both together', periods: stats.p85 }
+                      ].map(({ label, periods }, index) => {
+                        const shift = periods - run.factorImpact!.baseline
+                        return (
+                          <div key={label} className="bg-gray-50 dark:bg-gray-700 p-3 rounded">
+                            <div className="font-semibold text-gray-700 dark:text-gray-300">{label}</div>
+                            <div className="text-lg font-bold text-gray-800 dark:text-gray-200">{completionDate(periods)}</div>
+                            {index > 0 && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400">
+                                {shift === 0 ? 'No change' : `${shift > 0 ? '+' : ''}${shift} ${Math.abs(shift) === 1 ? resultUnit.singular : resultUnit.plural}`}
+                              </div>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {run && run.request.mode === 'portfolio' && (
+                <PortfolioTimeline
+                  features={run.request.features}
+                  featureResults={run.featureResults}
+                  completionDate={completionDate}
+                />
+              )}
+
               {/* Histogram */}
               <div className="mb-6">
-                <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Probability Distribution</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Probability Distribution</h3>
+                  <div className="flex gap-2 text-sm">
+                    {(['distribution', 'cumulative'] as const).map(view => (
+                      <button
+                        key={view}
+                        onClick={() => setChartView(view)}
+                        className={`px-3 py-1 rounded-md border ${
+                          chartView === view
+                            ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+                            : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+                        }`}
+                      >
+                        {view === 'distribution' ? 'Frequency' : 'Cumulative (S-curve)'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <div className="h-80 w-full">
-                  {isMounted && simulationResults.length > 0 ? (
+                  {isMounted && chartView === 'cumulative' && cumulativeResults.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={320}>
+                      <LineChart
+                        data={cumulativeResults}
+                        margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                        key={`s-curve-${resultMode}-${stats.totalSimulations}-${stats.seed}`}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                        <XAxis
+                          dataKey="value"
+                          type="number"
+                          domain={['dataMin', 'dataMax']}
+                          label={{ value: resultMode === 'how-many' ? 'Number of Items Completed' : 'Completion Date', position: 'insideBottom', offset: -10 }}
+                          tickFormatter={resultMode !== 'how-many' ? completionDate : undefined}
+                          tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                        />
+                        <YAxis
+                          domain={[0, 100]}
+                          tickFormatter={(value) => `${value}%`}
+                          label={{
+                            value: resultMode === 'how-many' ? 'Chance of at least this many' : 'Chance of finishing by',
+                            angle: -90,
+                            position: 'insideLeft',
+                            style: { textAnchor: 'middle', fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }
+                          }}
+                          tick={{ fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                        />
+                        <Tooltip
+                          formatter={(value) => [`${Number(value).toFixed(1)}%`, 'Probability']}
+                          labelFormatter={(label) => formatResult(Number(label))}
+                          contentStyle={{ backgroundColor: theme === 'dark' ? '#1f2937' : '#ffffff', borderColor: theme === 'dark' ? '#4b5563' : '#d1d5db' }}
+                        />
+                        {[95, 85, 50].map(level => (
+                          <ReferenceLine
+                            key={level}
+                            y={level}
+                            stroke={theme === 'dark' ? '#6b7280' : '#9ca3af'}
+                            strokeDasharray="5 5"
+                            label={{ value: `${level}%`, position: 'right' }}
+                          />
+                        ))}
+                        <Line
+                          type="stepAfter"
+                          dataKey="probability"
+                          stroke={theme === 'dark' ? '#3b82f6' : '#2563eb'}
+                          strokeWidth={2}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  ) : isMounted && chartView === 'distribution' && simulationResults.length > 0 ? (
                     <ResponsiveContainer width="100%" height={320}>
                       <BarChart
                         width={800}
                         height={320}
                         data={simulationResults}
                         margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
-                        key={`histogram-${stats.totalSimulations}-${forecastHorizon}`}>
+                        key={`histogram-${resultMode}-${stats.totalSimulations}-${stats.seed}`}>
                         <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
                         <XAxis
-                          dataKey="totalItems"
-                          label={{ value: 'Number of Items Completed', position: 'insideBottom', offset: -10 }}
+                          dataKey="value"
+                          label={{ value: resultMode === 'how-many' ? 'Number of Items Completed' : 'Completion Date', position: 'insideBottom', offset: -10 }}
+                          tickFormatter={resultMode !== 'how-many' ? completionDate : undefined}
                           tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
                         />
                         <YAxis
@@ -447,19 +750,66 @@ export default function MonteCarloAnalysis({ data }: MonteCarloAnalysisProps) {
                 </div>
               </div>
 
+              <ForecastProbability
+                key={`${resultMode}-${resultContext.sampling.granularity}`}
+                mode={resultMode}
+                results={run?.results ?? []}
+                formatValue={(value) => String(formatConfidence(value))}
+                periodsUntil={(date) => periodsUntil(resultContext.forecastStart, date, resultContext.sampling, resultContext.calendar)}
+              />
+
+              {run && run.request.mode === 'how-many' && (
+                <ForecastMatrix
+                  horizons={run.request.matrixHorizons}
+                  horizonResults={run.horizonResults}
+                  unit={resultUnit}
+                  periodEndDate={completionDate}
+                  rows={matrixRows}
+                  step={matrixStep}
+                  onChange={(rows, step) => onSettingsChange({ ...settings, matrixRows: rows, matrixStep: step })}
+                />
+              )}
+
               {/* Interpretation */}
               <div className="text-sm text-gray-600 dark:text-gray-300 space-y-2">
+                {resultMode === 'how-many' ? (
+                  <p>
+                    <strong>Interpretation:</strong> Based on {stats.totalSimulations.toLocaleString()} simulations over {run?.request.forecastHorizon} {resultUnit.plural}
+                    (to {completionDate(run?.request.forecastHorizon ?? 1)}),
+                    there is an 85% probability of completing {stats.p85} or more items, and a 50% probability of completing {stats.p50} or more items.
+                  </p>
+                ) : resultMode === 'portfolio' ? (
+                  <p>
+                    <strong>Interpretation:</strong> Based on {stats.totalSimulations.toLocaleString()} simulations starting {formatDate(resultContext.forecastStart)},
+                    there is an 85% probability that all {run?.request.features.length} features are done by {completionDate(stats.p85)}, and a 50% probability
+                    that they are done by {completionDate(stats.p50)}.
+                  </p>
+                ) : (
+                  <p>
+                    <strong>Interpretation:</strong> Based on {stats.totalSimulations.toLocaleString()} simulations starting {formatDate(resultContext.forecastStart)},
+                    there is an 85% probability that all {run?.request.backlogSize} items are done by {completionDate(stats.p85)}, and a 50% probability
+                    that they are done by {completionDate(stats.p50)}.
+                  </p>
+                )}
                 <p>
-                  <strong>Interpretation:</strong> Based on {stats.totalSimulations.toLocaleString()} simulations over {forecastHorizon} days,
-                  there is an 85% probability of completing {stats.p85} or more items, and a 50% probability of completing {stats.p50} or more items.
-                </p>
-                <p>
-                  <strong>Methodology:</strong> This Monte Carlo simulation randomly samples from your historical daily throughput data
-                  to model future performance variability and generate probabilistic forecasts.
+                  <strong>Methodology:</strong> This Monte Carlo simulation randomly samples from the items you finished in each of
+                  your past {resultUnit.plural} to model future performance variability and generate probabilistic forecasts.
                 </p>
               </div>
             </>
           )}
+
+          <ForecastBacktest
+            days={workingDays}
+            sampling={sampling}
+            calendar={calendar}
+            forecastHorizon={horizon}
+            numSimulations={numSimulations}
+            seed={seed}
+            cutoffCount={settings.backtestCutoffs}
+            onCutoffCountChange={count => onSettingsChange({ ...settings, backtestCutoffs: count })}
+            unit={unit}
+          />
         </>
       )}
     </div>
@@ -0,0 +1,82 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { parseDelimitedText } from '@/lib/fileFormats'
+import { getColumns, RawTable } from '@/lib/workItems'
+
+interface PasteDataProps {
+  onUpload: (tables: RawTable[]) => void
+}
+
+const PREVIEW_ROWS = 5
+
+export default function PasteData({ onUpload }: PasteDataProps) {
+  const [text, setText] = useState('')
+
+  // Spreadsheet copies are tab-separated; Papa picks tabs or commas as needed
+  const table = useMemo(() => text.trim() ? parseDelimitedText('Pasted data', text.trim()) : null, [text])
+  const columns = table ? getColumns(table.rows) : []
+  const canUse = table !== null && table.rows.length > 0 && columns.length > 1
+
+  return (
+    <div className="w-full md:w-[32rem] border-2 border-dashed rounded-lg p-6 border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800">
+      <label htmlFor="paste-data" className="block text-base font-medium text-gray-900 dark:text-gray-100 text-center">
+        Or paste data
+      </label>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 mb-3 text-center">
+        Copy a range with its header row from a spreadsheet, or paste CSV text
+      </p>
+      <textarea
+        id="paste-data"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={6}
+        placeholder={'ID\tStart\tEnd\nABC-1\t01/03/2024\t05/03/2024'}
+        className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+      />
+
+      {table && columns.length > 1 && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+            {table.rows.length} rows, {columns.length} columns
+            {table.rows.length > PREVIEW_ROWS && ` (showing first ${PREVIEW_ROWS})`}
+          </p>
+          <div className="overflow-x-auto max-h-48">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  {columns.map(column => (
+                    <th key={column} className="text-left py-1 pr-3 font-semibold text-gray-700 dark:text-gray-300">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index} className="border-b border-gray-100 dark:border-gray-700">
+                    {columns.map(column => (
+                      <td key={column} className="py-1 pr-3 text-gray-600 dark:text-gray-300">{row[column]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {table && columns.length <= 1 && (
+        <div className="mt-4 text-red-600 dark:text-red-400 text-sm">
+          Couldn&apos;t find separate columns. Include the header row and use tabs or commas between values.
+        </div>
+      )}
+
+      <button
+        onClick={() => table && onUpload([table])}
+        disabled={!canUse}
+        className="mt-4 w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+      >
+        Use pasted data
+      </button>
+    </div>
+  )
+}
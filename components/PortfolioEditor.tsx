@@ -0,0 +1,145 @@
+'use client'
+
+import { AllocationMode, MonteCarloSettings, PortfolioFeature } from '@/lib/monteCarlo'
+
+interface PortfolioEditorProps {
+  settings: MonteCarloSettings
+  onChange: (settings: MonteCarloSettings) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100'
+const linkButtonClassName = 'text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline disabled:opacity-50 disabled:no-underline'
+
+const ALLOCATION_MODES: Array<{ mode: AllocationMode, label: string }> = [
+  { mode: 'priority', label: 'Priority order' },
+  { mode: 'percentage', label: 'Percentage allocation' }
+]
+
+export default function PortfolioEditor({ settings, onChange }: PortfolioEditorProps) {
+  const { features, allocationMode } = settings
+  const totalAllocation = features.reduce((sum, feature) => sum + feature.allocation, 0)
+
+  const setFeatures = (next: PortfolioFeature[]) => onChange({ ...settings, features: next })
+
+  const updateFeature = (index: number, changes: Partial<PortfolioFeature>) => {
+    setFeatures(features.map((feature, i) => i === index ? { ...feature, ...changes } : feature))
+  }
+
+  const moveFeature = (index: number, offset: number) => {
+    const next = [...features]
+    const [feature] = next.splice(index, 1)
+    next.splice(index + offset, 0, feature)
+    setFeatures(next)
+  }
+
+  // A new feature takes whatever share is left, leaving the entered percentages alone
+  const addFeature = () => {
+    setFeatures([
+      ...features,
+      { name: `Feature ${features.length + 1}`, items: 10, allocation: Math.max(0, 100 - totalAllocation) }
+    ])
+  }
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Features</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        {allocationMode === 'priority'
+          ? 'Every finished item goes to the highest priority feature that is still open, from the top of the list down.'
+          : 'Each open feature gets its percentage of the throughput in every period. When a feature finishes, its share is spread over the rest.'}
+      </p>
+      <div className="flex gap-2 mb-4 text-sm">
+        {ALLOCATION_MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => onChange({ ...settings, allocationMode: option.mode })}
+            className={`px-3 py-1 rounded-md border ${
+              allocationMode === option.mode
+                ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {features.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">Add the features to forecast, highest priority first.</p>
+      ) : (
+        <table className="min-w-full text-sm mb-3">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">#</th>
+              <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">Feature</th>
+              <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">Items</th>
+              {allocationMode === 'percentage' && (
+                <th className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">Allocation (%)</th>
+              )}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {features.map((feature, index) => (
+              <tr key={index} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{index + 1}</td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="text"
+                    value={feature.name}
+                    onChange={(e) => updateFeature(index, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="py-2 pr-4 w-32">
+                  <input
+                    type="number"
+                    value={feature.items}
+                    onChange={(e) => updateFeature(index, { items: Math.max(0, Math.min(10000, parseInt(e.target.value) || 0)) })}
+                    className={inputClassName}
+                    min="0"
+                    max="10000"
+                  />
+                </td>
+                {allocationMode === 'percentage' && (
+                  <td className="py-2 pr-4 w-32">
+                    <input
+                      type="number"
+                      value={feature.allocation}
+                      onChange={(e) => updateFeature(index, { allocation: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                      className={inputClassName}
+                      min="0"
+                      max="100"
+                    />
+                  </td>
+                )}
+                <td className="py-2 whitespace-nowrap">
+                  <div className="flex gap-3">
+                    {allocationMode === 'priority' && (
+                      <>
+                        <button onClick={() => moveFeature(index, -1)} disabled={index === 0} className={linkButtonClassName}>Up</button>
+                        <button onClick={() => moveFeature(index, 1)} disabled={index === features.length - 1} className={linkButtonClassName}>Down</button>
+                      </>
+                    )}
+                    <button onClick={() => setFeatures(features.filter((_, i) => i !== index))} className={linkButtonClassName}>Remove</button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button onClick={addFeature} className={linkButtonClassName}>Add feature</button>
+        {allocationMode === 'percentage' && features.length > 0 && totalAllocation !== 100 && (
+          <span className="text-sm text-yellow-700 dark:text-yellow-300">
+            {totalAllocation === 0
+              ? 'No allocations set, so throughput is split evenly.'
+              : `Allocations add up to ${totalAllocation}%, so they are scaled to 100%.`}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
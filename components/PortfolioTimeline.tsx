@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { useTheme } from '@/contexts/ThemeContext'
+import { ChartTooltipProps } from '@/lib/charts'
+import { downloadTextFile, tableToCsv, tableToTsv } from '@/lib/export'
+import { confidenceValue, MAX_PERIODS, PortfolioFeature } from '@/lib/monteCarlo'
+
+interface PortfolioTimelineProps {
+  features: PortfolioFeature[]
+  // Sorted periods to finish each feature
+  featureResults: number[][]
+  completionDate: (periods: number) => string
+}
+
+interface TimelineRow {
+  name: string
+  p50: number
+  p85: number
+  p95: number
+  toP50: number
+  toP85: number
+  toP95: number
+}
+
+const TIMELINE_LEVELS = [0.5, 0.85, 0.95]
+
+export default function PortfolioTimeline({ features, featureResults, completionDate }: PortfolioTimelineProps) {
+  const [isMounted, setIsMounted] = useState(false)
+  const { theme } = useTheme()
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
+
+  // Each bar is stacked from the forecast start: solid to the 50% date, then
+  // lighter segments out to the 85% and 95% dates
+  const timelineData = useMemo(() => features.map((feature, index): TimelineRow => {
+    const [p50, p85, p95] = TIMELINE_LEVELS.map(level => confidenceValue(featureResults[index], 'when', level))
+    return {
+      name: feature.name || `Feature ${index + 1}`,
+      p50,
+      p85,
+      p95,
+      toP50: p50,
+      toP85: p85 - p50,
+      toP95: p95 - p85
+    }
+  }), [features, featureResults])
+
+  // A feature with nothing left finishes in zero periods, before the first one ends
+  const formatPeriods = (periods: number) => {
+    if (periods >= MAX_PERIODS) return 'Not finished'
+    if (periods === 0) return 'Already done'
+    return completionDate(periods)
+  }
+
+  const table = [
+    ['Feature', 'Items', ...TIMELINE_LEVELS.map(level => `${level * 100}%`)],
+    ...timelineData.map((row, index) => [
+      row.name,
+      String(features[index].items),
+      formatPeriods(row.p50),
+      formatPeriods(row.p85),
+      formatPeriods(row.p95)
+    ])
+  ]
+
+  const copyTable = () => {
+    navigator.clipboard.writeText(tableToTsv(table)).catch(err => console.error(err))
+  }
+
+  const barColor = theme === 'dark' ? '#3b82f6' : '#2563eb'
+
+  const TimelineTooltip = ({ active, payload }: ChartTooltipProps<TimelineRow>) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload
+      return (
+        <div className="bg-white dark:bg-gray-800 p-3 border-2 border-gray-300 dark:border-gray-600 rounded shadow-lg">
+          <p className="font-bold text-blue-600 dark:text-blue-400">{data.name}</p>
+          <p className="text-sm text-gray-900 dark:text-gray-100">50%: {formatPeriods(data.p50)}</p>
+          <p className="text-sm text-gray-900 dark:text-gray-100">85%: {formatPeriods(data.p85)}</p>
+          <p className="text-sm text-gray-900 dark:text-gray-100">95%: {formatPeriods(data.p95)}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Feature Timeline</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Date each feature is done by with 50%, 85% and 95% confidence, from the same simulation run.
+      </p>
+
+      <div className="w-full mb-4" style={{ height: Math.max(160, features.length * 48 + 80) }}>
+        {isMounted ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={timelineData} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+              <XAxis
+                type="number"
+                tickFormatter={completionDate}
+                tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+              />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={120}
+                tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+              />
+              <Tooltip content={<TimelineTooltip />} />
+              <Legend verticalAlign="top" />
+              <Bar dataKey="toP50" stackId="timeline" name="Done by 50% date" fill={barColor} fillOpacity={0.9} isAnimationActive={false} />
+              <Bar dataKey="toP85" stackId="timeline" name="by 85% date" fill={barColor} fillOpacity={0.5} isAnimationActive={false} />
+              <Bar dataKey="toP95" stackId="timeline" name="by 95% date" fill={barColor} fillOpacity={0.25} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-gray-500 dark:text-gray-400">Loading chart...</p>
+          </div>
+        )}
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-700">
+            {table[0].map(header => (
+              <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{header}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.slice(1).map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-b border-gray-100 dark:border-gray-700">
+              {row.map((cell, index) => (
+                <td key={index} className="py-2 pr-4 text-gray-900 dark:text-gray-100">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex gap-4 mt-3">
+        <button
+          onClick={copyTable}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          Copy table
+        </button>
+        <button
+          onClick={() => downloadTextFile('portfolio-forecast.csv', tableToCsv(table))}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          Download CSV
+        </button>
+      </div>
+    </div>
+  )
+}
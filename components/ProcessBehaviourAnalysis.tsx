@@ -1,24 +1,69 @@
 'use client'
 
 import { useMemo, useState, useEffect } from 'react'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts'
 import { useTheme } from '@/contexts/ThemeContext'
+import ProcessLimitsEditor from '@/components/ProcessLimitsEditor'
+import {
+  analyseXmr,
+  ChartPhase,
+  DETECTION_RULES,
+  DetectionRule,
+  metricSeries,
+  PROCESS_METRICS,
+  ProcessBehaviourSettings,
+  ProcessMetric
+} from '@/lib/processBehaviour'
+import { WorkingCalendar } from '@/lib/calendar'
+import { ChartTooltipProps } from '@/lib/charts'
+import { formatDate } from '@/lib/dates'
+import { hasCycleTime, isRoleAvailable, WorkItemDataset } from '@/lib/workItems'
 
 interface ProcessBehaviourAnalysisProps {
-  data: any[]
+  dataset: WorkItemDataset
+  calendar: WorkingCalendar
+  settings: ProcessBehaviourSettings
+  onSettingsChange: (settings: ProcessBehaviourSettings) => void
 }
 
 interface ProcessDataPoint {
   key: string
   sequence: number
-  cycleTime: number
+  value: number
   movingRange: number | null
-  itemName: string
-  itemId: string
-  originalEndDate: string
+  date: number
+  // Item ID for cycle times, or the day or week for throughput and WIP
+  label: string
+  originalEndDate: string | null
+  // Limits of the point's phase, drawn as stepped lines
+  phase: number
+  centralLine: number
+  upperProcessLimit: number
+  lowerProcessLimit: number
+  // Detection rules this point triggered
+  signals: DetectionRule[]
   isSpecialCause: boolean
 }
 
+interface MovingRangePoint {
+  key: string
+  sequence: number
+  movingRange: number
+  upperRangeLimit: number
+  centralMovingRange: number
+  isLarge: boolean
+}
+
+// The parts of Recharts' dot props the special cause dots use
+interface SignalDotProps {
+  cx?: number
+  cy?: number
+  index?: number
+  fill?: string
+  stroke?: string
+  payload: ProcessDataPoint | MovingRangePoint
+}
+
 interface ProcessStats {
   centralLine: number
   upperProcessLimit: number
@@ -26,9 +71,13 @@ interface ProcessStats {
   averageMovingRange: number
   totalItems: number
   specialCauseCount: number
+  // Points flagged by each rule; a point can count towards several
+  ruleCounts: Record<DetectionRule, number>
 }
 
-export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnalysisProps) {
+const ruleLabel = (rule: DetectionRule) => DETECTION_RULES.find(option => option.rule === rule)?.label ?? rule
+
+export default function ProcessBehaviourAnalysis({ dataset, calendar, settings, onSettingsChange }: ProcessBehaviourAnalysisProps) {
   const [isMounted, setIsMounted] = useState(false)
   const { theme } = useTheme()
 
@@ -36,205 +85,165 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
     setIsMounted(true)
   }, [])
 
-  const { processedData, movingRangeData, stats } = useMemo(() => {
-    const allColumns = Object.keys(data[0] || {})
-    console.log('All available columns:', allColumns)
-
-    // Find required columns (reuse logic from CycleTimeAnalysis)
-    let endDateColumn = allColumns.find(key =>
-      key.toLowerCase() === 'end' || key.toLowerCase() === 'end date'
-    )
-
-    let cycleTimeColumn = allColumns.find(key =>
-      key.toLowerCase() === 'ct' || key.toLowerCase() === 'cycle time'
-    )
-
-    let idColumn = allColumns.find(key =>
-      key.toLowerCase() === 'id' || key.toLowerCase() === 'key'
-    )
-
-    // Fallback detection if specific columns not found
-    if (!endDateColumn || !cycleTimeColumn) {
-      for (const col of allColumns) {
-        const sampleValues = data.slice(0, 5).map(row => row[col]).filter(Boolean)
-
-        if (!endDateColumn) {
-          const isDateColumn = sampleValues.some(val => {
-            const str = val.toString().trim()
-            const datePattern = /^\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}$/
-            return datePattern.test(str)
-          })
-
-          if (isDateColumn) {
-            endDateColumn = col
-          }
-        }
-
-        if (!cycleTimeColumn) {
-          const isCycleTimeColumn = sampleValues.every(val => {
-            const num = parseFloat(val)
-            return !isNaN(num) && num >= 0 && num <= 100
-          })
-
-          if (isCycleTimeColumn) {
-            cycleTimeColumn = col
-          }
-        }
-      }
-    }
-
-    if (!endDateColumn || !cycleTimeColumn) {
-      console.warn('Missing required columns for process behaviour analysis')
-      return {
-        processedData: [],
-        movingRangeData: [],
-        stats: {
-          centralLine: 0,
-          upperProcessLimit: 0,
-          lowerProcessLimit: 0,
-          averageMovingRange: 0,
-          totalItems: 0,
-          specialCauseCount: 0
-        }
-      }
-    }
-
-    // Process and sort data chronologically by end date
-    const chronologicalData = data
-      .filter(row => endDateColumn && cycleTimeColumn && row[endDateColumn] && row[cycleTimeColumn])
-      .map((row, index) => {
-        const dateString = row[endDateColumn!].toString().trim()
-        const itemId = idColumn ? row[idColumn] : 'Unknown'
-
-        // Parse date (reuse logic from CycleTimeAnalysis)
-        let dateValue: Date
-        const parts = dateString.split(/[-/]/)
-        if (parts.length === 3) {
-          const day = parseInt(parts[0].trim(), 10)
-          const month = parseInt(parts[1].trim(), 10)
-          const year = parseInt(parts[2].trim(), 10)
-
-          if (day >= 1 && day <= 31 && month >= 1 && month <= 12 && year >= 2020 && year <= 2030) {
-            dateValue = new Date(year, month - 1, day)
-          } else {
-            return null
-          }
-        } else {
-          return null
-        }
-
-        if (isNaN(dateValue.getTime())) {
-          return null
-        }
-
-        return {
-          endDate: dateValue.getTime(),
-          cycleTime: parseFloat(row[cycleTimeColumn!]) || 0,
-          itemId,
-          itemName: idColumn ? row[idColumn] || 'Unknown' : 'Unknown',
-          originalEndDate: dateString
-        }
-      })
-      .filter((item): item is NonNullable<typeof item> => item !== null && item.cycleTime > 0)
-      .sort((a, b) => a.endDate - b.endDate)
+  // Cycle time needs a Cycle Time or Start Date column, while throughput only
+  // needs end dates, so datasets without one fall back to weekly throughput
+  const hasCycleTimes = isRoleAvailable(dataset.mapping, 'cycleTime')
+  const selectedMetric: ProcessMetric = settings.metric === 'cycle-time' && !hasCycleTimes ? 'weekly-throughput' : settings.metric
+
+  const { processedData, movingRangeData, phases, stats } = useMemo(() => {
+    // Items arrive sorted chronologically by end date; throughput and WIP
+    // have one value per working day or week
+    const chronologicalData = selectedMetric === 'cycle-time'
+      ? dataset.items.filter(hasCycleTime).map(item => ({
+        key: item.key,
+        value: item.cycleTime,
+        date: item.endDate,
+        label: `ID: ${item.id}`,
+        originalEndDate: item.originalEndDate
+      }))
+      : metricSeries(selectedMetric, dataset, calendar).map(sample => ({
+        key: `period-${sample.start}`,
+        value: sample.count,
+        date: sample.start,
+        label: sample.start === sample.end ? formatDate(sample.start) : `${formatDate(sample.start)} - ${formatDate(sample.end)}`,
+        originalEndDate: null
+      }))
 
     if (chronologicalData.length === 0) {
       return {
         processedData: [],
         movingRangeData: [],
+        phases: [] as ChartPhase[],
         stats: {
           centralLine: 0,
           upperProcessLimit: 0,
           lowerProcessLimit: 0,
           averageMovingRange: 0,
           totalItems: 0,
-          specialCauseCount: 0
+          specialCauseCount: 0,
+          ruleCounts: { 'beyond-limits': 0, 'run-of-eight': 0, 'three-of-four': 0, 'moving-range': 0 }
         }
       }
     }
 
-    // Calculate process statistics using Shewhart method
-    const cycleTimes = chronologicalData.map(item => item.cycleTime)
-    const centralLine = cycleTimes.reduce((sum, ct) => sum + ct, 0) / cycleTimes.length
-
-    // Calculate moving ranges
-    const movingRanges: number[] = []
-    for (let i = 1; i < cycleTimes.length; i++) {
-      movingRanges.push(Math.abs(cycleTimes[i] - cycleTimes[i - 1]))
-    }
-
-    const averageMovingRange = movingRanges.length > 0
-      ? movingRanges.reduce((sum, mr) => sum + mr, 0) / movingRanges.length
-      : 0
-
-    // Shewhart control limits using 2.66 multiplier for individuals chart
-    const upperProcessLimit = centralLine + (2.66 * averageMovingRange)
-    const lowerProcessLimit = Math.max(0, centralLine - (2.66 * averageMovingRange)) // Can't have negative cycle time
+    // Calculate process statistics using Shewhart method, phase by phase
+    const values = chronologicalData.map(item => item.value)
+    const { points, phases } = analyseXmr(values, chronologicalData.map(item => item.date), settings)
 
     // Create processed data points with special cause identification
     const processedDataPoints: ProcessDataPoint[] = chronologicalData.map((item, index) => {
-      const isSpecialCause = item.cycleTime > upperProcessLimit || item.cycleTime < lowerProcessLimit
-
+      const point = points[index]
+      const { limits } = phases[point.phase]
       return {
-        key: `${item.itemId}-${index}`,
+        key: item.key,
         sequence: index + 1,
-        cycleTime: item.cycleTime,
-        movingRange: index > 0 ? movingRanges[index - 1] : null,
-        itemName: item.itemName,
-        itemId: item.itemId,
+        value: item.value,
+        movingRange: point.movingRange,
+        date: item.date,
+        label: item.label,
         originalEndDate: item.originalEndDate,
-        isSpecialCause
+        phase: point.phase,
+        centralLine: limits.centralLine,
+        upperProcessLimit: limits.upperProcessLimit,
+        lowerProcessLimit: limits.lowerProcessLimit,
+        signals: point.signals,
+        isSpecialCause: point.signals.length > 0
       }
     })
 
-    // Create moving range chart data
-    const movingRangePoints = movingRanges.map((mr, index) => ({
-      key: `mr-${index}`,
-      sequence: index + 2, // Moving range starts from 2nd point
-      movingRange: mr,
-      upperRangeLimit: averageMovingRange * 3.27, // Upper control limit for moving range
-      centralMovingRange: averageMovingRange
-    }))
+    // Create moving range chart data; ranges restart with each phase
+    const movingRangePoints: MovingRangePoint[] = processedDataPoints
+      .filter(point => point.movingRange !== null)
+      .map(point => ({
+        key: `mr-${point.sequence}`,
+        sequence: point.sequence,
+        movingRange: point.movingRange as number,
+        upperRangeLimit: phases[point.phase].limits.upperRangeLimit,
+        centralMovingRange: phases[point.phase].limits.averageMovingRange,
+        isLarge: point.signals.includes('moving-range')
+      }))
+
+    // Summary tiles describe the latest phase
+    const { centralLine, upperProcessLimit, lowerProcessLimit, averageMovingRange } = phases[phases.length - 1].limits
 
     const specialCauseCount = processedDataPoints.filter(point => point.isSpecialCause).length
+    const ruleCounts = Object.fromEntries(DETECTION_RULES.map(({ rule }) => [
+      rule,
+      processedDataPoints.filter(point => point.signals.includes(rule)).length
+    ])) as Record<DetectionRule, number>
 
     return {
       processedData: processedDataPoints,
       movingRangeData: movingRangePoints,
+      phases,
       stats: {
         centralLine,
         upperProcessLimit,
         lowerProcessLimit,
         averageMovingRange,
         totalItems: processedDataPoints.length,
-        specialCauseCount
+        specialCauseCount,
+        ruleCounts
       }
     }
-  }, [data])
+  }, [dataset, calendar, settings, selectedMetric])
+
+  const metric = PROCESS_METRICS.find(option => option.metric === selectedMetric) ?? PROCESS_METRICS[0]
+  const valueUnit = selectedMetric === 'cycle-time' ? ' days' : ''
+  // Period metrics label the axis with dates rather than sequence numbers
+  const formatSequence = selectedMetric === 'cycle-time'
+    ? undefined
+    : (sequence: number) => processedData[sequence - 1] ? formatDate(processedData[sequence - 1].date) : ''
+
+  const toggleRule = (rule: DetectionRule) => {
+    const rules = settings.rules.includes(rule)
+      ? settings.rules.filter(r => r !== rule)
+      : [...settings.rules, rule]
+    onSettingsChange({ ...settings, rules })
+  }
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  // Special causes are drawn in red
+  const renderDot = (props: SignalDotProps) => {
+    const { cx, cy, index, payload } = props
+    const isSpecialCause = 'isLarge' in payload ? payload.isLarge : payload.isSpecialCause
+    return (
+      <circle
+        key={`dot-${index}`}
+        cx={cx}
+        cy={cy}
+        r={isSpecialCause ? 5 : 3}
+        fill={isSpecialCause ? '#dc2626' : props.fill}
+        stroke={isSpecialCause ? '#991b1b' : props.stroke}
+        strokeWidth={2}
+      />
+    )
+  }
+
+  const CustomTooltip = ({ active, payload }: ChartTooltipProps<ProcessDataPoint>) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload as ProcessDataPoint
+      const data = payload[0].payload
       return (
         <div className="bg-white p-4 border-2 border-gray-300 rounded shadow-lg">
-          <p className="font-bold text-blue-600">ID: {data.itemId}</p>
+          <p className="font-bold text-blue-600">{data.label}</p>
           <p className="text-sm">
             <strong>Sequence:</strong> {data.sequence}
           </p>
           <p className="text-sm">
-            <strong>Cycle Time:</strong> {data.cycleTime} days
+            <strong>{metric.label}:</strong> {data.value}{valueUnit}
           </p>
           {data.movingRange !== null && (
             <p className="text-sm">
               <strong>Moving Range:</strong> {data.movingRange.toFixed(1)}
             </p>
           )}
-          <p className="text-xs text-gray-500 mt-1">
-            Completed: {data.originalEndDate}
-          </p>
+          {data.originalEndDate && (
+            <p className="text-xs text-gray-500 mt-1">
+              Completed: {data.originalEndDate}
+            </p>
+          )}
           {data.isSpecialCause && (
             <p className="text-xs text-red-600 font-semibold mt-1">
-              ⚠ Special Cause Variation
+              ⚠ Special Cause Variation: {data.signals.map(ruleLabel).join(', ')}
             </p>
           )}
         </div>
@@ -243,7 +252,7 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
     return null
   }
 
-  const MovingRangeTooltip = ({ active, payload, label }: any) => {
+  const MovingRangeTooltip = ({ active, payload }: ChartTooltipProps<MovingRangePoint>) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload
       return (
@@ -254,6 +263,9 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
           <p className="text-sm">
             <strong>Moving Range:</strong> {data.movingRange.toFixed(2)}
           </p>
+          {data.isLarge && (
+            <p className="text-xs text-red-600 font-semibold mt-1">⚠ Above the URL</p>
+          )}
         </div>
       )
     }
@@ -264,12 +276,67 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
       <h2 className="text-2xl font-semibold mb-4 text-gray-900 dark:text-gray-100">Process Behaviour Chart</h2>
       <p className="text-gray-600 dark:text-gray-300 mb-6">
-        Shows cycle times in chronological order with Shewhart control limits to identify common cause vs. special cause variation.
+        Shows cycle times, throughput or WIP in chronological order with Shewhart control limits to identify common cause vs. special cause variation.
       </p>
 
+      {/* Metric */}
+      <div className="flex flex-wrap gap-2 mb-6 text-sm">
+        {PROCESS_METRICS.map(option => (
+          <button
+            key={option.metric}
+            onClick={() => onSettingsChange({ ...settings, metric: option.metric })}
+            disabled={option.metric === 'cycle-time' && !hasCycleTimes}
+            title={option.metric === 'cycle-time' && !hasCycleTimes ? 'Map a Cycle Time or Start Date column to chart cycle times' : undefined}
+            className={`px-3 py-1 rounded-md border disabled:opacity-50 disabled:cursor-not-allowed ${
+              selectedMetric === option.metric
+                ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {selectedMetric === 'daily-wip' && !dataset.mapping.start && (
+        <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+          WIP is worked out from start and end dates. Map a Start Date column to see it.
+        </div>
+      )}
+
+      {/* Detection Rules */}
+      <div className="mb-6">
+        <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Detection Rules</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          {DETECTION_RULES.map(({ rule, label, description }) => (
+            <label key={rule} className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.rules.includes(rule)}
+                onChange={() => toggleRule(rule)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium">{label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <ProcessLimitsEditor settings={settings} onChange={onSettingsChange} />
+      {phases.some(phase => phase.baselineIgnored) && (
+        <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-700 dark:text-yellow-300">
+          {phases.length === 1
+            ? 'The baseline range has fewer than two points, so the limits come from every point instead.'
+            : `The baseline range has fewer than two points in phase ${phases.flatMap((phase, index) => phase.baselineIgnored ? [index + 1] : []).join(', ')}, so those limits come from every point in the phase instead.`}
+          {' '}Widen the baseline range to use it.
+        </div>
+      )}
+
       {/* Individual Values Chart */}
       <div className="mb-8">
-        <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Individual Values (Cycle Times)</h3>
+        <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Individual Values ({metric.label})</h3>
         <div className="h-80 w-full">
           {isMounted && processedData.length > 0 ? (
             <ResponsiveContainer width="100%" height={320}>
@@ -278,47 +345,56 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
                 height={320}
                 data={processedData}
                 margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
-                key={`process-chart-${processedData.length}`}>
+                key={`process-chart-${selectedMetric}-${processedData.length}`}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis
                   dataKey="sequence"
-                  label={{ value: 'Sequence (Chronological Order)', position: 'insideBottom', offset: -10 }}
+                  label={{ value: formatSequence ? 'Date' : 'Sequence (Chronological Order)', position: 'insideBottom', offset: -10 }}
+                  tickFormatter={formatSequence}
                   tick={{ fontSize: 12 }}
                 />
                 <YAxis
-                  label={{ value: 'Cycle Time (days)', angle: -90, position: 'insideLeft' }}
+                  label={{ value: metric.axisLabel, angle: -90, position: 'insideLeft' }}
                 />
                 <Tooltip content={<CustomTooltip />} />
 
-                {/* Control Lines */}
-                <ReferenceLine
-                  y={stats.upperProcessLimit}
-                  stroke="#dc2626"
-                  strokeWidth={2}
-                  strokeDasharray="5 5"
-                  label={{ value: "UPL", position: "top", offset: 5 }}
-                />
-                <ReferenceLine
-                  y={stats.centralLine}
-                  stroke="#059669"
-                  strokeWidth={2}
-                  label={{ value: "CL", position: "top", offset: 5 }}
-                />
-                <ReferenceLine
-                  y={stats.lowerProcessLimit}
-                  stroke="#dc2626"
-                  strokeWidth={2}
-                  strokeDasharray="5 5"
-                  label={{ value: "LPL", position: "bottom", offset: 5 }}
-                />
+                <Legend verticalAlign="top" />
+
+                {/* Baseline the limits were computed from, and phase boundaries */}
+                {phases.map((phase, index) => phase.baseline && (
+                  <ReferenceArea
+                    key={`baseline-${index}`}
+                    x1={phase.baseline.start + 1}
+                    x2={phase.baseline.end}
+                    fill="#059669"
+                    fillOpacity={0.08}
+                    label={{ value: 'Baseline', position: 'insideTopLeft' }}
+                  />
+                ))}
+                {phases.slice(1).map((phase, index) => (
+                  <ReferenceLine
+                    key={`phase-${index}`}
+                    x={phase.start + 1}
+                    stroke="#6b7280"
+                    strokeDasharray="3 3"
+                    label={{ value: `Phase ${index + 2}`, position: 'insideTopRight' }}
+                  />
+                ))}
+
+                {/* Control Lines, stepping to new limits at each phase */}
+                <Line type="stepAfter" dataKey="upperProcessLimit" name="UPL" stroke="#dc2626" strokeWidth={2} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                <Line type="stepAfter" dataKey="centralLine" name="CL" stroke="#059669" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line type="stepAfter" dataKey="lowerProcessLimit" name="LPL" stroke="#dc2626" strokeWidth={2} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
 
                 {/* Main process line */}
                 <Line
                   type="monotone"
-                  dataKey="cycleTime"
+                  dataKey="value"
+                  name={metric.label}
                   stroke="#3b82f6"
                   strokeWidth={2}
-                  dot={{ r: 4, fill: '#3b82f6', stroke: '#1e40af', strokeWidth: 2 }}
+                  fill="#3b82f6"
+                  dot={renderDot}
                 />
               </LineChart>
             </ResponsiveContainer>
@@ -346,7 +422,8 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis
                   dataKey="sequence"
-                  label={{ value: 'Sequence', position: 'insideBottom', offset: -10 }}
+                  label={{ value: formatSequence ? 'Date' : 'Sequence', position: 'insideBottom', offset: -10 }}
+                  tickFormatter={formatSequence}
                   tick={{ fontSize: 12 }}
                 />
                 <YAxis
@@ -354,26 +431,18 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
                 />
                 <Tooltip content={<MovingRangeTooltip />} />
 
-                <ReferenceLine
-                  y={movingRangeData[0]?.upperRangeLimit || 0}
-                  stroke="#dc2626"
-                  strokeWidth={2}
-                  strokeDasharray="5 5"
-                  label={{ value: "URL", position: "top", offset: 5 }}
-                />
-                <ReferenceLine
-                  y={stats.averageMovingRange}
-                  stroke="#059669"
-                  strokeWidth={2}
-                  label={{ value: "AMR", position: "top", offset: 5 }}
-                />
+                <Legend verticalAlign="top" />
+                <Line type="stepAfter" dataKey="upperRangeLimit" name="URL" stroke="#dc2626" strokeWidth={2} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                <Line type="stepAfter" dataKey="centralMovingRange" name="AMR" stroke="#059669" strokeWidth={2} dot={false} isAnimationActive={false} />
 
                 <Line
                   type="monotone"
                   dataKey="movingRange"
+                  name="Moving Range"
                   stroke="#f59e0b"
                   strokeWidth={2}
-                  dot={{ fill: '#f59e0b', stroke: '#d97706', strokeWidth: 2, r: 3 }}
+                  fill="#f59e0b"
+                  dot={renderDot}
                 />
               </LineChart>
             </ResponsiveContainer>
@@ -390,12 +459,12 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
         <div className="space-y-4">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div className="bg-gray-50 p-3 rounded">
-              <div className="font-semibold text-gray-700">Total Items</div>
+              <div className="font-semibold text-gray-700">{selectedMetric === 'cycle-time' ? 'Total Items' : 'Points'}</div>
               <div className="text-lg font-bold text-blue-600">{stats.totalItems}</div>
             </div>
             <div className="bg-gray-50 p-3 rounded">
               <div className="font-semibold text-gray-700">Central Line</div>
-              <div className="text-lg font-bold text-green-600">{stats.centralLine.toFixed(1)} days</div>
+              <div className="text-lg font-bold text-green-600">{stats.centralLine.toFixed(1)}{valueUnit}</div>
             </div>
             <div className="bg-gray-50 p-3 rounded">
               <div className="font-semibold text-gray-700">Control Limits</div>
@@ -408,21 +477,65 @@ export default function ProcessBehaviourAnalysis({ data }: ProcessBehaviourAnaly
               <div className="text-lg font-bold text-orange-600">{stats.specialCauseCount}</div>
             </div>
           </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            {DETECTION_RULES.filter(({ rule }) => settings.rules.includes(rule)).map(({ rule, label }) => (
+              <div key={rule} className="bg-gray-50 p-3 rounded">
+                <div className="font-semibold text-gray-700">{label}</div>
+                <div className="text-lg font-bold text-orange-600">{stats.ruleCounts[rule]}</div>
+              </div>
+            ))}
+          </div>
           <div className="grid grid-cols-1 gap-4 text-sm">
             <div className="bg-gray-50 p-3 rounded">
               <div className="font-semibold text-gray-700">Upper Range Limit (URL)</div>
               <div className="text-lg font-bold text-purple-600">
-                {movingRangeData.length > 0 ? movingRangeData[0]?.upperRangeLimit.toFixed(1) : '0.0'}
+                {phases[phases.length - 1].limits.upperRangeLimit.toFixed(1)}
               </div>
             </div>
           </div>
+
+          {/* Phases */}
+          {(phases.length > 1 || phases.some(phase => phase.baseline)) && (
+            <div>
+              <p className="text-sm text-gray-600 mb-2">The figures above are for the latest phase.</p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    {['Phase', 'From', 'Points', 'Limits from', 'CL', 'LPL - UPL', 'URL'].map(header => (
+                      <th key={header} className="text-left py-2 pr-4 font-semibold text-gray-700">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {phases.map((phase, index) => (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="py-2 pr-4">{index + 1}</td>
+                      <td className="py-2 pr-4">{formatDate(processedData[phase.start].date)}</td>
+                      <td className="py-2 pr-4">{phase.end - phase.start}</td>
+                      <td className="py-2 pr-4">
+                        {phase.baseline
+                          ? `Baseline of ${phase.baseline.end - phase.baseline.start} points`
+                          : 'All points'}
+                      </td>
+                      <td className="py-2 pr-4">{phase.limits.centralLine.toFixed(1)}</td>
+                      <td className="py-2 pr-4">
+                        {phase.limits.lowerProcessLimit.toFixed(1)} - {phase.limits.upperProcessLimit.toFixed(1)}
+                      </td>
+                      <td className="py-2 pr-4">{phase.limits.upperRangeLimit.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       )}
 
       <div className="mt-6 text-sm text-gray-600 space-y-2">
         <p>
           <strong>Interpretation:</strong> Points within control limits indicate common cause variation (predictable).
-          Points outside limits (shown in red) indicate special cause variation requiring investigation.
+          Points shown in red triggered at least one of the detection rules above and indicate special cause variation
+          requiring investigation. A point can trigger several rules, so the counts by rule may add up to more than the total.
         </p>
         <p>
           <strong>Control Limits:</strong> UPL = Upper Process Limit, CL = Central Line, LPL = Lower Process Limit
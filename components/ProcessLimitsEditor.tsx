@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDate, parseDate } from '@/lib/dates'
+import { ProcessBehaviourSettings } from '@/lib/processBehaviour'
+
+interface ProcessLimitsEditorProps {
+  settings: ProcessBehaviourSettings
+  onChange: (settings: ProcessBehaviourSettings) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'
+const linkButtonClassName = 'text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline'
+
+const displayDate = (date: string) => {
+  const timestamp = parseDate(date, 'iso')
+  return timestamp === null ? date : formatDate(timestamp)
+}
+
+export default function ProcessLimitsEditor({ settings, onChange }: ProcessLimitsEditorProps) {
+  const [phaseDate, setPhaseDate] = useState('')
+  const { baselineFrom, baselineTo, phaseStarts } = settings
+
+  const addPhase = () => {
+    if (!phaseDate || phaseStarts.includes(phaseDate)) return
+    onChange({ ...settings, phaseStarts: [...phaseStarts, phaseDate].sort() })
+    setPhaseDate('')
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Limits</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        Compute limits from a baseline range and project them forward, or start a new phase with its own limits
+        after a process change. A phase that doesn&apos;t overlap the baseline uses all of its points.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className={labelClassName}>Baseline From</label>
+          <input
+            type="date"
+            value={baselineFrom ?? ''}
+            onChange={(e) => onChange({ ...settings, baselineFrom: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Baseline To</label>
+          <input
+            type="date"
+            value={baselineTo ?? ''}
+            onChange={(e) => onChange({ ...settings, baselineTo: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>New Phase From</label>
+          <input
+            type="date"
+            value={phaseDate}
+            onChange={(e) => setPhaseDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={addPhase}
+            disabled={!phaseDate}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+          >
+            Add Phase
+          </button>
+        </div>
+      </div>
+
+      {(baselineFrom || baselineTo || phaseStarts.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          {phaseStarts.map(date => (
+            <span key={date} className="inline-flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              Phase from {displayDate(date)}
+              <button
+                onClick={() => onChange({ ...settings, phaseStarts: phaseStarts.filter(start => start !== date) })}
+                className="text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+                aria-label={`Remove phase from ${displayDate(date)}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button
+            onClick={() => onChange({ ...settings, baselineFrom: null, baselineTo: null, phaseStarts: [] })}
+            className={linkButtonClassName}
+          >
+            Reset limits
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
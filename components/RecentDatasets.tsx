@@ -0,0 +1,47 @@
+'use client'
+
+import { formatDate } from '@/lib/dates'
+import { SavedDataset } from '@/lib/storage'
+
+interface RecentDatasetsProps {
+  datasets: SavedDataset[]
+  onOpen: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function RecentDatasets({ datasets, onOpen, onDelete }: RecentDatasetsProps) {
+  if (datasets.length === 0) return null
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow p-6 max-w-5xl mx-auto">
+      <h2 className="text-lg font-medium mb-1 text-gray-900 dark:text-gray-100">Recent Datasets</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Saved in this browser only. Nothing is uploaded anywhere.
+      </p>
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {datasets.map(dataset => (
+          <li key={dataset.id} className="flex items-center justify-between py-2 text-sm">
+            <button
+              onClick={() => onOpen(dataset.id)}
+              className="text-left text-blue-600 dark:text-blue-400 hover:underline"
+              title={dataset.fileNames.join('\n')}
+            >
+              {dataset.name}
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                {dataset.rowCount} rows · saved {formatDate(dataset.savedAt)}
+                {dataset.options === null && ' · columns not mapped yet'}
+              </span>
+            </button>
+            <button
+              onClick={() => onDelete(dataset.id)}
+              className="ml-4 text-xs text-red-600 dark:text-red-400 hover:underline"
+              aria-label={`Delete ${dataset.name}`}
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
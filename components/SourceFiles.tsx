@@ -0,0 +1,52 @@
+'use client'
+
+import { RawTable, UndatedWorkItem } from '@/lib/workItems'
+
+interface SourceFilesProps {
+  tables: RawTable[]
+  // Dated and undated items alike
+  items: UndatedWorkItem[]
+  onRemove: (index: number) => void
+  onAddFiles: () => void
+}
+
+export default function SourceFiles({ tables, items, onRemove, onAddFiles }: SourceFilesProps) {
+  const itemCount = (index: number) => items.filter(item => item.sourceIndex === index).length
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4 max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {tables.length === 1 ? 'Source' : `Sources (${tables.length} merged)`}
+        </h3>
+        <button
+          onClick={onAddFiles}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline"
+        >
+          + Add more files
+        </button>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {tables.map((table, index) => (
+          <li key={`${table.name}-${index}`} className="flex items-center justify-between text-gray-700 dark:text-gray-300">
+            <span>
+              {table.name}
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                {table.rows.length} rows, {itemCount(index)} items used
+              </span>
+            </span>
+            {tables.length > 1 && (
+              <button
+                onClick={() => onRemove(index)}
+                className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                aria-label={`Remove ${table.name}`}
+              >
+                Remove
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { useTheme } from '@/contexts/ThemeContext'
+import { formatDate } from '@/lib/dates'
+import { buildHistogram } from '@/lib/monteCarlo'
+import { Granularity, granularityUnit, SamplingSettings, SamplingWindowType, ThroughputSample, WindowUnit } from '@/lib/throughput'
+
+interface ThroughputSamplingProps {
+  settings: SamplingSettings
+  onChange: (settings: SamplingSettings) => void
+  samples: ThroughputSample[]
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'
+
+export default function ThroughputSampling({ settings, onChange, samples }: ThroughputSamplingProps) {
+  const [isMounted, setIsMounted] = useState(false)
+  const { theme } = useTheme()
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
+
+  const histogram = useMemo(
+    () => buildHistogram(samples.map(sample => sample.count).sort((a, b) => a - b)),
+    [samples]
+  )
+
+  const unit = granularityUnit(settings.granularity)
+  const update = (changes: Partial<SamplingSettings>) => onChange({ ...settings, ...changes })
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Sampling Window</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClassName}>Sample From</label>
+              <select
+                value={settings.windowType}
+                onChange={(e) => update({ windowType: e.target.value as SamplingWindowType })}
+                className={inputClassName}
+              >
+                <option value="all">All data</option>
+                <option value="last">The last...</option>
+                <option value="range">A date range</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>Throughput Per</label>
+              <select
+                value={settings.granularity}
+                onChange={(e) => update({ granularity: e.target.value as Granularity })}
+                className={inputClassName}
+              >
+                <option value="daily">Working day</option>
+                <option value="weekly">Week</option>
+                <option value="sprint">Sprint</option>
+              </select>
+            </div>
+          </div>
+
+          {settings.windowType === 'last' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClassName}>Length</label>
+                <input
+                  type="number"
+                  value={settings.windowCount}
+                  onChange={(e) => update({ windowCount: Math.max(1, Math.min(1000, parseInt(e.target.value) || 1)) })}
+                  className={inputClassName}
+                  min="1"
+                  max="1000"
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Unit</label>
+                <select
+                  value={settings.windowUnit}
+                  onChange={(e) => update({ windowUnit: e.target.value as WindowUnit })}
+                  className={inputClassName}
+                >
+                  <option value="days">Days</option>
+                  <option value="weeks">Weeks</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {settings.windowType === 'range' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClassName}>From</label>
+                <input
+                  type="date"
+                  value={settings.windowFrom ?? ''}
+                  onChange={(e) => update({ windowFrom: e.target.value || null })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>To</label>
+                <input
+                  type="date"
+                  value={settings.windowTo ?? ''}
+                  onChange={(e) => update({ windowTo: e.target.value || null })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {settings.granularity === 'sprint' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClassName}>Sprint Length (weeks)</label>
+                <input
+                  type="number"
+                  value={settings.sprintWeeks}
+                  onChange={(e) => update({ sprintWeeks: Math.max(1, Math.min(8, parseInt(e.target.value) || 2)) })}
+                  className={inputClassName}
+                  min="1"
+                  max="8"
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>A Sprint Started On</label>
+                <input
+                  type="date"
+                  value={settings.sprintStart ?? ''}
+                  onChange={(e) => update({ sprintStart: e.target.value || null })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {samples.length === 0
+              ? `No complete ${unit.plural} in this window.`
+              : `Sampling ${samples.length} ${samples.length === 1 ? unit.singular : unit.plural} from ${formatDate(samples[0].start)} to ${formatDate(samples[samples.length - 1].end)}.`}
+            {settings.granularity !== 'daily' && ' Forecasts count whole ' + unit.plural + '.'}
+          </p>
+        </div>
+
+        <div className="h-56 w-full">
+          {isMounted && histogram.length > 0 ? (
+            <ResponsiveContainer width="100%" height={224}>
+              <BarChart data={histogram} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? '#374151' : '#e5e7eb'} />
+                <XAxis
+                  dataKey="value"
+                  label={{ value: `Items per ${unit.singular}`, position: 'insideBottom', offset: -10 }}
+                  tick={{ fontSize: 12, fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  tick={{ fill: theme === 'dark' ? '#d1d5db' : '#6b7280' }}
+                />
+                <Tooltip
+                  formatter={(value) => [`${value} ${unit.plural}`, 'Frequency']}
+                  labelFormatter={(label) => `${label} items`}
+                  contentStyle={{ backgroundColor: theme === 'dark' ? '#1f2937' : '#ffffff', borderColor: theme === 'dark' ? '#4b5563' : '#d1d5db' }}
+                />
+                <Bar dataKey="frequency" fill={theme === 'dark' ? '#3b82f6' : '#60a5fa'} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">
+                {!isMounted ? 'Loading chart...' : 'No throughput in this window'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
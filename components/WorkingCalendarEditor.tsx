@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { parseHolidayList, WEEKDAYS, WorkingCalendar } from '@/lib/calendar'
+import { formatDate, parseDate } from '@/lib/dates'
+
+interface WorkingCalendarEditorProps {
+  calendar: WorkingCalendar
+  onChange: (calendar: WorkingCalendar) => void
+}
+
+export default function WorkingCalendarEditor({ calendar, onChange }: WorkingCalendarEditorProps) {
+  const [pastedHolidays, setPastedHolidays] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const workingDayCount = 7 - calendar.nonWorkingDays.length
+
+  const toggleDay = (day: number) => {
+    const nonWorkingDays = calendar.nonWorkingDays.includes(day)
+      ? calendar.nonWorkingDays.filter(d => d !== day)
+      : [...calendar.nonWorkingDays, day]
+    onChange({ ...calendar, nonWorkingDays })
+  }
+
+  const addHolidays = (text: string) => {
+    const { holidays, ignored } = parseHolidayList(text)
+    const merged = Array.from(new Set([...calendar.holidays, ...holidays])).sort()
+    onChange({ ...calendar, holidays: merged })
+    setMessage(`Added ${merged.length - calendar.holidays.length} holidays` + (ignored > 0 ? `, ignored ${ignored} lines without a date` : ''))
+  }
+
+  const handleFile = async (file: File) => {
+    try {
+      addHolidays(await file.text())
+    } catch (err) {
+      setMessage(`${file.name}: error reading file`)
+      console.error(err)
+    }
+  }
+
+  const holidayLabel = (holiday: string) => {
+    const timestamp = parseDate(holiday, 'iso')
+    return timestamp === null ? holiday : formatDate(timestamp)
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-3 text-gray-900 dark:text-gray-100">Working Calendar</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        Throughput is sampled from working days only, and forecasts count working days. Items finished on a
+        non-working day count towards the next working day.
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-4">
+        {WEEKDAYS.map(({ day, label }) => {
+          const isWorking = !calendar.nonWorkingDays.includes(day)
+          return (
+            <label key={day} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={isWorking}
+                // Keep at least one working day so forecasts can finish
+                disabled={isWorking && workingDayCount === 1}
+                onChange={() => toggleDay(day)}
+                className="mr-2"
+              />
+              {label}
+            </label>
+          )
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="holiday-list" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Holidays
+          </label>
+          <textarea
+            id="holiday-list"
+            value={pastedHolidays}
+            onChange={(e) => setPastedHolidays(e.target.value)}
+            rows={3}
+            placeholder={'One date per line, e.g.\n25/12/2024'}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          />
+          <div className="flex items-center gap-4 mt-2">
+            <button
+              onClick={() => {
+                addHolidays(pastedHolidays)
+                setPastedHolidays('')
+              }}
+              disabled={!pastedHolidays.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              Add dates
+            </button>
+            <label className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline cursor-pointer">
+              Import CSV or iCalendar file
+              <input
+                type="file"
+                accept=".csv,.txt,.ics"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          </div>
+          {message && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{message}</p>}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {calendar.holidays.length} holidays
+            </span>
+            {calendar.holidays.length > 0 && (
+              <button
+                onClick={() => onChange({ ...calendar, holidays: [] })}
+                className="text-xs text-red-600 dark:text-red-400 hover:underline"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+            {calendar.holidays.map(holiday => (
+              <span
+                key={holiday}
+                className="inline-flex items-center px-2 py-1 text-xs rounded bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+              >
+                {holidayLabel(holiday)}
+                <button
+                  onClick={() => onChange({ ...calendar, holidays: calendar.holidays.filter(h => h !== holiday) })}
+                  className="ml-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Remove ${holidayLabel(holiday)}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
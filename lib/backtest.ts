@@ -0,0 +1,130 @@
+// Backtesting: replays "how many" forecasts from past cut-off dates, using only
+// the throughput known at the time, and checks them against what was delivered.
+
+import { WorkingCalendar } from '@/lib/calendar'
+import { dayKey } from '@/lib/dates'
+import { confidenceValue, createRandom, probabilityOf, runSimulation } from '@/lib/monteCarlo'
+import { periodEndDate, sampleThroughput, SamplingSettings, ThroughputSample } from '@/lib/throughput'
+
+export const CALIBRATION_LEVELS = [0.5, 0.6, 0.7, 0.8, 0.85, 0.9, 0.95]
+
+// Cut-offs with less sampled history than this are skipped
+export const MIN_BACKTEST_SAMPLES = 5
+
+export interface BacktestRequest {
+  // Working-day throughput for the whole dataset
+  days: ThroughputSample[]
+  sampling: SamplingSettings
+  calendar: WorkingCalendar
+  forecastHorizon: number
+  numSimulations: number
+  cutoffCount: number
+  seed: number
+}
+
+export interface BacktestPoint {
+  // Last day of history the forecast could see
+  cutoff: number
+  forecastStart: number
+  forecastEnd: number
+  samples: number
+  // Items forecast at each calibration level, in the same order
+  forecasts: number[]
+  delivered: number
+  // Share of runs that forecast at least what was delivered
+  probability: number
+}
+
+export interface CalibrationPoint {
+  level: number
+  hits: number
+  hitRate: number
+}
+
+export interface BacktestOutput {
+  // Oldest cut-off first
+  points: BacktestPoint[]
+  calibration: CalibrationPoint[]
+}
+
+export type BacktestMessage =
+  | { type: 'progress', completed: number, total: number }
+  | { type: 'done', output: BacktestOutput }
+
+// Throughput samples as they stood at a cut-off. A date range reaching past
+// the cut-off stops at it, so later days can't leak into the history.
+function historyAt(days: ThroughputSample[], index: number, sampling: SamplingSettings): ThroughputSample[] {
+  const known = days.slice(0, index + 1)
+  const cutoff = dayKey(days[index].end)
+  const windowTo = sampling.windowTo && sampling.windowTo > cutoff ? null : sampling.windowTo
+  return sampleThroughput(known, { ...sampling, windowTo })
+}
+
+// Cut-offs step back from the end of the data so that each forecast window
+// ends before the next one starts. Overlapping windows would count the same
+// delivery more than once and make the hit rates look more certain than they are.
+export function backtestCutoffs(request: BacktestRequest): number[] {
+  const { days, sampling, calendar, forecastHorizon, cutoffCount } = request
+  const indexes: number[] = []
+  if (days.length < 2) return indexes
+
+  const forecastEnd = (index: number) => periodEndDate(days[index + 1].start, forecastHorizon, sampling, calendar)
+  let limit = days[days.length - 1].end
+  for (let index = days.length - 2; index >= 0 && indexes.length < cutoffCount; index--) {
+    if (forecastEnd(index) > limit) continue
+    if (historyAt(days, index, sampling).length < MIN_BACKTEST_SAMPLES) break
+    indexes.unshift(index)
+    limit = days[index].end
+  }
+  return indexes
+}
+
+// Each cut-off gets its own seed drawn from the request seed, so the same seed
+// always replays the same backtest
+export function runBacktest(request: BacktestRequest, onProgress?: (completed: number, total: number) => void): BacktestOutput {
+  const { days, sampling, calendar, forecastHorizon, numSimulations } = request
+  const cutoffs = backtestCutoffs(request)
+  const random = createRandom(request.seed)
+
+  const points = cutoffs.map((index, completed) => {
+    const history = historyAt(days, index, sampling)
+    const forecastStart = days[index + 1].start
+    const forecastEnd = periodEndDate(forecastStart, forecastHorizon, sampling, calendar)
+    const { results } = runSimulation({
+      mode: 'how-many',
+      throughput: history.map(sample => sample.count),
+      numSimulations,
+      forecastHorizon,
+      backlogSize: 0,
+      seed: Math.floor(random() * 2 ** 32),
+      matrixHorizons: [],
+      splitLow: 1,
+      splitHigh: 1,
+      growthRate: 0,
+      features: [],
+      allocationMode: 'priority'
+    })
+    const delivered = days
+      .filter(day => day.start >= forecastStart && day.start <= forecastEnd)
+      .reduce((sum, day) => sum + day.count, 0)
+
+    onProgress?.(completed + 1, cutoffs.length)
+    return {
+      cutoff: days[index].end,
+      forecastStart,
+      forecastEnd,
+      samples: history.length,
+      forecasts: CALIBRATION_LEVELS.map(level => confidenceValue(results, 'how-many', level)),
+      delivered,
+      probability: probabilityOf(results, 'how-many', delivered)
+    }
+  })
+
+  // A forecast at a level is a hit when at least that many items were delivered
+  const calibration = CALIBRATION_LEVELS.map((level, levelIndex) => {
+    const hits = points.filter(point => point.delivered >= point.forecasts[levelIndex]).length
+    return { level, hits, hitRate: points.length > 0 ? hits / points.length : 0 }
+  })
+
+  return { points, calibration }
+}
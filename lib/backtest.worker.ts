@@ -0,0 +1,10 @@
+// Runs backtests off the main thread, one simulation per cut-off date.
+
+import { BacktestMessage, BacktestRequest, runBacktest } from '@/lib/backtest'
+
+const post = (message: BacktestMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<BacktestRequest>) => {
+  const output = runBacktest(event.data, (completed, total) => post({ type: 'progress', completed, total }))
+  post({ type: 'done', output })
+}
@@ -0,0 +1,93 @@
+// Team working-day calendar: which weekdays are worked, plus holidays.
+
+import { addDays, dayKey, detectDateFormat, looksLikeDate, parseDate, startOfDay } from '@/lib/dates'
+
+export interface WorkingCalendar {
+  // Days of the week that aren't worked, 0 = Sunday
+  nonWorkingDays: number[]
+  // Holidays as YYYY-MM-DD day keys
+  holidays: string[]
+}
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  nonWorkingDays: [0, 6],
+  holidays: []
+}
+
+// Monday first, as most team calendars are laid out
+export const WEEKDAYS: Array<{ day: number, label: string }> = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' }
+]
+
+export function isWorkingDay(timestamp: number, calendar: WorkingCalendar): boolean {
+  return !calendar.nonWorkingDays.includes(new Date(timestamp).getDay()) &&
+    !calendar.holidays.includes(dayKey(timestamp))
+}
+
+// The day itself if it's worked, otherwise the next working day. A calendar
+// with every weekday switched off is treated as working every day.
+export function nextWorkingDay(timestamp: number, calendar: WorkingCalendar): number {
+  let day = startOfDay(timestamp)
+  if (calendar.nonWorkingDays.length >= 7) return day
+  while (!isWorkingDay(day, calendar)) {
+    day = addDays(day, 1)
+  }
+  return day
+}
+
+// The working day `count` working days after the given one
+export function addWorkingDays(timestamp: number, count: number, calendar: WorkingCalendar): number {
+  let day = nextWorkingDay(timestamp, calendar)
+  for (let i = 0; i < count; i++) {
+    day = nextWorkingDay(addDays(day, 1), calendar)
+  }
+  return day
+}
+
+// Working days from one day to another, counting both ends
+export function countWorkingDays(from: number, to: number, calendar: WorkingCalendar): number {
+  let count = 0
+  for (let day = startOfDay(from); day <= startOfDay(to); day = addDays(day, 1)) {
+    if (isWorkingDay(day, calendar) || calendar.nonWorkingDays.length >= 7) count++
+  }
+  return count
+}
+
+const ICS_DATE_PATTERN = /^DTSTART[^:]*:(\d{4})(\d{2})(\d{2})/gm
+
+// Read holidays from an iCalendar file, or from text with a date at the
+// start of each line (a CSV export or a pasted list). Lines without a date,
+// such as headers, are ignored.
+export function parseHolidayList(text: string): { holidays: string[], ignored: number } {
+  const found = new Set<string>()
+  let ignored = 0
+
+  if (text.includes('BEGIN:VCALENDAR')) {
+    for (const match of text.matchAll(ICS_DATE_PATTERN)) {
+      found.add(`${match[1]}-${match[2]}-${match[3]}`)
+    }
+  } else {
+    const values = text
+      .split(/\r?\n/)
+      .map(line => line.split(/[,;\t]/)[0].trim().replace(/^"|"$/g, ''))
+      .filter(Boolean)
+    const format = detectDateFormat(values.filter(looksLikeDate)).format
+
+    values.forEach(value => {
+      const timestamp = format ? parseDate(value, format) : null
+      if (timestamp === null) {
+        ignored++
+      } else {
+        found.add(dayKey(timestamp))
+      }
+    })
+  }
+
+  return { holidays: Array.from(found).sort(), ignored }
+}
@@ -0,0 +1,8 @@
+// Shared chart typing. Recharts hands custom tooltip content the hovered
+// rows untyped, so each chart names its own row type here.
+
+export interface ChartTooltipProps<T> {
+  active?: boolean
+  payload?: Array<{ payload: T }>
+  label?: string | number
+}
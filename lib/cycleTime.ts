@@ -0,0 +1,69 @@
+// Cycle time derived from a work item's start and end dates.
+
+import { addDays, startOfDay } from '@/lib/dates'
+
+export type DayCounting = 'inclusive' | 'exclusive'
+export type DayType = 'calendar' | 'business'
+
+export interface CycleTimeOptions {
+  dayCounting: DayCounting
+  dayType: DayType
+}
+
+export const DEFAULT_CYCLE_TIME_OPTIONS: CycleTimeOptions = {
+  dayCounting: 'inclusive',
+  dayType: 'calendar'
+}
+
+function isWeekday(timestamp: number): boolean {
+  const day = new Date(timestamp).getDay()
+  return day !== 0 && day !== 6
+}
+
+// Count the days an item took. Inclusive counting treats an item started and
+// finished on the same day as 1 day; exclusive counting treats it as 0.
+// Returns null if the item ended before it started.
+export function countCycleTimeDays(startDate: number, endDate: number, options: CycleTimeOptions): number | null {
+  const start = startOfDay(startDate)
+  const end = startOfDay(endDate)
+  if (end < start) {
+    return null
+  }
+
+  let days = 0
+  for (let current = start; current <= end; current = addDays(current, 1)) {
+    if (options.dayType === 'calendar' || isWeekday(current)) {
+      days++
+    }
+  }
+
+  return options.dayCounting === 'inclusive' ? days : Math.max(0, days - 1)
+}
+
+export interface CycleTimeSettings {
+  // Percentile lines to draw, e.g. 85 for the 85th percentile
+  percentiles: number[]
+  // Column to colour the scatter by, or null for a single series. Left unset,
+  // the column mapped to Type or Team is used.
+  groupBy?: string | null
+  // Categories of the groupBy column left out of the charts and stats
+  hiddenGroups: string[]
+  // Draw percentile lines for each category instead of all items together
+  percentilesByGroup: boolean
+}
+
+export const DEFAULT_CYCLE_TIME_SETTINGS: CycleTimeSettings = {
+  percentiles: [50, 70, 85, 95],
+  hiddenGroups: [],
+  percentilesByGroup: false
+}
+
+// Percentile of sorted cycle times, interpolating between neighbouring items
+export function interpolatedPercentile(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0
+  const index = (sorted.length - 1) * percentile / 100
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  const weight = index - lower
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight
+}
@@ -0,0 +1,208 @@
+// Shared date helpers for work item data.
+
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'excel'
+
+export const DATE_FORMATS: Array<{ format: DateFormat, label: string, example: string }> = [
+  { format: 'iso', label: 'ISO 8601', example: '2024-03-15 or 2024-03-15T09:30' },
+  { format: 'dmy', label: 'Day/Month/Year', example: '15/03/2024 or 15-Mar-2024' },
+  { format: 'mdy', label: 'Month/Day/Year', example: '03/15/2024' },
+  { format: 'excel', label: 'Excel serial number', example: '45366' }
+]
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const ISO_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+const DAY_MONTH_PATTERN = /^(\d{1,2})[\/\-. ]([A-Za-z]{3,9}|\d{1,2})[\/\-. ](\d{2}|\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?$/i
+const EXCEL_PATTERN = /^\d+(\.\d+)?$/
+
+// Excel serials from 1900-01-01 up to 9999-12-31
+const MAX_EXCEL_SERIAL = 2958465
+
+function parseMonth(token: string): number {
+  if (/^\d+$/.test(token)) {
+    return parseInt(token, 10)
+  }
+  return MONTH_NAMES.indexOf(token.slice(0, 3).toLowerCase()) + 1
+}
+
+function parseYear(token: string): number {
+  const year = parseInt(token, 10)
+  if (token.length !== 2) return year
+  // Two-digit years up to this one are this century. Later ones, like the 99
+  // in 31/12/99, can't be completion dates yet, so they're the 1900s.
+  const thisYear = new Date().getFullYear() % 100
+  return year <= thisYear ? 2000 + year : 1900 + year
+}
+
+// Build a local timestamp, rejecting impossible dates like 31/02
+function buildTimestamp(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): number | null {
+  if (month < 1 || month > 12 || day < 1 || hours > 23 || minutes > 59 || seconds > 59) {
+    return null
+  }
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds)
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null
+  }
+  return date.getTime()
+}
+
+function to24Hour(hours: number, meridiem: string | undefined): number {
+  if (!meridiem) return hours
+  const isPm = meridiem.toUpperCase() === 'PM'
+  if (hours === 12) return isPm ? 12 : 0
+  return isPm ? hours + 12 : hours
+}
+
+function parseIso(value: string): number | null {
+  const match = value.match(ISO_PATTERN)
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes, seconds, zone] = match
+  const fields = [
+    parseInt(year, 10), parseInt(month, 10), parseInt(day, 10),
+    hours ? parseInt(hours, 10) : 0, minutes ? parseInt(minutes, 10) : 0, seconds ? parseInt(seconds, 10) : 0
+  ] as const
+  const local = buildTimestamp(...fields)
+  if (local === null || !zone) return local
+
+  // An explicit offset pins the instant: read the fields as UTC and shift back by it
+  const [y, mo, d, h, mi, s] = fields
+  return Date.UTC(y, mo - 1, d, h, mi, s) - offsetMinutes(zone) * 60 * 1000
+}
+
+function offsetMinutes(zone: string): number {
+  if (zone.toUpperCase() === 'Z') return 0
+  const digits = zone.slice(1).replace(':', '')
+  const minutes = parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10)
+  return zone[0] === '-' ? -minutes : minutes
+}
+
+function parseDayMonth(value: string, dayFirst: boolean): number | null {
+  const match = value.match(DAY_MONTH_PATTERN)
+  if (!match) return null
+
+  const [, first, second, year, hours, minutes, seconds, meridiem] = match
+  // Month names only make sense in the middle of a day-first date
+  if (!dayFirst && !/^\d+$/.test(second)) return null
+
+  const day = parseInt(dayFirst ? first : second, 10)
+  const month = dayFirst ? parseMonth(second) : parseInt(first, 10)
+
+  return buildTimestamp(
+    parseYear(year), month, day,
+    hours ? to24Hour(parseInt(hours, 10), meridiem) : 0,
+    minutes ? parseInt(minutes, 10) : 0,
+    seconds ? parseInt(seconds, 10) : 0
+  )
+}
+
+function parseExcelSerial(value: string): number | null {
+  if (!EXCEL_PATTERN.test(value)) return null
+
+  const serial = parseFloat(value)
+  if (serial < 1 || serial > MAX_EXCEL_SERIAL) return null
+
+  // Excel counts days from 1899-12-30 (accounting for its 1900 leap year bug)
+  const wholeDays = Math.floor(serial)
+  const date = new Date(1899, 11, 30 + wholeDays)
+  return date.getTime() + Math.round((serial - wholeDays) * 24 * 60 * 60 * 1000)
+}
+
+// Parse a date string in the given format into a local timestamp.
+// Returns null if the string doesn't match the format or isn't a real date.
+export function parseDate(value: string, format: DateFormat): number | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  switch (format) {
+    case 'iso':
+      return parseIso(trimmed)
+    case 'dmy':
+      return parseDayMonth(trimmed, true)
+    case 'mdy':
+      return parseDayMonth(trimmed, false)
+    case 'excel':
+      return parseExcelSerial(trimmed)
+  }
+}
+
+// Loose check used when sniffing sample values for a date column. Excel
+// serials are left out since they're indistinguishable from plain numbers.
+export function looksLikeDate(value: string): boolean {
+  const trimmed = value.trim()
+  return ISO_PATTERN.test(trimmed) || DAY_MONTH_PATTERN.test(trimmed)
+}
+
+// Day/month order used by the browser's locale, for breaking ties
+export function localeDateFormat(): DateFormat {
+  const parts = new Intl.DateTimeFormat().formatToParts(new Date(2000, 11, 31))
+  const order = parts.filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year').map(part => part.type)
+  if (order[0] === 'year') return 'iso'
+  return order[0] === 'month' ? 'mdy' : 'dmy'
+}
+
+// Share of values the best format has to parse, so a few typos in a column
+// don't stop it being detected
+export const MIN_DATE_FORMAT_SHARE = 0.9
+
+export interface DateFormatDetection {
+  // Formats tied for parsing the most sample values, at least MIN_DATE_FORMAT_SHARE of them
+  candidates: DateFormat[]
+  // Best guess, or null if no format parsed enough values
+  format: DateFormat | null
+  // True when more than one format fits and the user should choose
+  ambiguous: boolean
+  // Sample values the best format couldn't read
+  unparsed: number
+}
+
+export function detectDateFormat(values: string[]): DateFormatDetection {
+  const samples = values.map(value => value.trim()).filter(Boolean)
+  if (samples.length === 0) {
+    return { candidates: [], format: null, ambiguous: false, unparsed: 0 }
+  }
+
+  const parsed = DATE_FORMATS.map(({ format }) => ({
+    format,
+    count: samples.filter(value => parseDate(value, format) !== null).length
+  }))
+  const best = Math.max(...parsed.map(({ count }) => count))
+  const candidates = best / samples.length >= MIN_DATE_FORMAT_SHARE
+    ? parsed.filter(({ count }) => count === best).map(({ format }) => format)
+    : []
+
+  const preferred = localeDateFormat()
+  const format = candidates.includes(preferred) ? preferred : candidates[0] || null
+
+  return {
+    candidates,
+    format,
+    ambiguous: candidates.length > 1,
+    unparsed: candidates.length > 0 ? samples.length - best : samples.length
+  }
+}
+
+// Format a timestamp as DD/MM/YYYY
+export function formatDate(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getFullYear()}`
+}
+
+// YYYY-MM-DD key for grouping timestamps by local day
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`
+}
+
+// Local midnight of the day containing the timestamp
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+}
+
+// Step whole calendar days, landing on local midnight across DST changes
+export function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime()
+}
@@ -0,0 +1,21 @@
+// Table exports: CSV files to download, and tab-separated text that pastes
+// straight into spreadsheets and slide tables.
+
+import Papa from 'papaparse'
+
+export function tableToCsv(rows: string[][]): string {
+  return Papa.unparse(rows)
+}
+
+export function tableToTsv(rows: string[][]): string {
+  return Papa.unparse(rows, { delimiter: '\t' })
+}
+
+export function downloadTextFile(fileName: string, text: string, type = 'text/csv') {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
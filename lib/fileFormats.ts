@@ -0,0 +1,169 @@
+// Readers for each supported upload format. Every format ends up as the same
+// RawTable of string rows, so the mapping and analyses never see the source.
+
+import Papa from 'papaparse'
+import type { CellValue, Workbook } from 'exceljs'
+import { CsvRow, DataIssue, lineNumber, RawTable } from '@/lib/workItems'
+
+export type FileFormat = 'csv' | 'tsv' | 'json' | 'xlsx'
+
+export const ACCEPTED_EXTENSIONS = ['.csv', '.tsv', '.txt', '.json', '.xlsx']
+
+export function detectFileFormat(file: File): FileFormat | null {
+  const name = file.name.toLowerCase()
+  // .txt exports use any delimiter, so they go through the auto-detecting CSV path
+  if (name.endsWith('.csv') || name.endsWith('.txt') || file.type === 'text/csv') return 'csv'
+  if (name.endsWith('.tsv') || file.type === 'text/tab-separated-values') return 'tsv'
+  if (name.endsWith('.json') || file.type === 'application/json') return 'json'
+  if (name.endsWith('.xlsx')) return 'xlsx'
+  return null
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Give every row the same columns, in first-seen order
+function normalizeRows(records: Array<Record<string, unknown>>): CsvRow[] {
+  const columns: string[] = []
+  const seen = new Set<string>()
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    })
+  })
+
+  return records.map(record => {
+    const row: CsvRow = {}
+    columns.forEach(column => {
+      row[column] = cellToString(record[column])
+    })
+    return row
+  })
+}
+
+// Parse CSV or TSV text. Malformed lines are reported alongside the data
+// rather than rejecting the file. Leave the delimiter out to auto-detect.
+export function parseDelimitedText(name: string, text: string, delimiter?: string): RawTable {
+  const result = Papa.parse<CsvRow>(text, { header: true, delimiter })
+
+  const issues: DataIssue[] = result.errors.map(parseError => ({
+    source: null,
+    sourceIndex: null,
+    line: parseError.row !== undefined ? lineNumber(parseError.row) : null,
+    itemId: null,
+    severity: 'warning',
+    reason: parseError.message
+  }))
+
+  // Papa keeps fields beyond the header under __parsed_extra. The issue above
+  // already records them, so don't let them become a column.
+  const rows = result.data.map(row => {
+    const { __parsed_extra: _extra, ...rest } = row as CsvRow & { __parsed_extra?: unknown }
+    return rest
+  })
+
+  return { name, rows, issues }
+}
+
+export function parseJsonText(name: string, text: string): RawTable {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('JSON file must contain an array of objects')
+  }
+
+  const records: Array<Record<string, unknown>> = []
+  const issues: DataIssue[] = []
+  parsed.forEach((entry, index) => {
+    if (entry !== null && typeof entry === 'object' && !Array.isArray(entry)) {
+      records.push(entry)
+    } else {
+      issues.push({ source: null, sourceIndex: null, line: null, itemId: null, severity: 'skipped', reason: `Array entry ${index + 1} is not an object` })
+    }
+  })
+
+  return { name, rows: normalizeRows(records), issues }
+}
+
+// The spreadsheet library is large, so it's only loaded when a workbook is dropped
+export async function readWorkbook(file: File): Promise<Workbook> {
+  const ExcelJS = await import('exceljs')
+  const workbook = new ExcelJS.Workbook()
+  // The browser build reads an ArrayBuffer as well as a Buffer
+  await workbook.xlsx.load(await file.arrayBuffer() as unknown as Parameters<typeof workbook.xlsx.load>[0])
+  return workbook
+}
+
+export function sheetNames(workbook: Workbook): string[] {
+  return workbook.worksheets.map(sheet => sheet.name)
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+// Workbook dates have no time zone: the library hands back their wall-clock
+// time as UTC, which is written out as ISO text for the date parser
+function cellValueToString(value: CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) {
+    const date = `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`
+    const hasTime = value.getUTCHours() || value.getUTCMinutes() || value.getUTCSeconds()
+    return hasTime ? `${date}T${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}` : date
+  }
+  if (typeof value !== 'object') return String(value)
+  if ('richText' in value) return value.richText.map(part => part.text).join('')
+  if ('hyperlink' in value) return cellValueToString(value.text)
+  if ('formula' in value || 'sharedFormula' in value) return cellValueToString(value.result ?? null)
+  return ''
+}
+
+// The first row holds the headers. Every later row is kept, blank or not, so
+// line numbers in the data quality report match the spreadsheet's rows.
+export function sheetToTable(workbook: Workbook, sheetName: string, fileName: string): RawTable {
+  const sheet = workbook.getWorksheet(sheetName)
+  if (!sheet) throw new Error(`Sheet "${sheetName}" not found`)
+
+  const headerRow = sheet.getRow(1)
+  const columns = Array.from({ length: headerRow.cellCount }, (_, index) =>
+    cellValueToString(headerRow.getCell(index + 1).value).trim() || `Column ${index + 1}`
+  )
+
+  const rows: CsvRow[] = []
+  for (let rowNumber = 2; rowNumber <= sheet.rowCount; rowNumber++) {
+    const sheetRow = sheet.getRow(rowNumber)
+    const row: CsvRow = {}
+    columns.forEach((column, index) => {
+      row[column] = cellValueToString(sheetRow.getCell(index + 1).value)
+    })
+    rows.push(row)
+  }
+  // Formatting can stretch a sheet well past its data
+  while (rows.length > 0 && Object.values(rows[rows.length - 1]).every(value => value.trim() === '')) {
+    rows.pop()
+  }
+
+  const name = workbook.worksheets.length > 1 ? `${fileName} (${sheetName})` : fileName
+  return { name, rows, issues: [] }
+}
+
+export async function readTextFile(file: File, format: Exclude<FileFormat, 'xlsx'>): Promise<RawTable> {
+  const text = await file.text()
+  switch (format) {
+    case 'csv':
+      return parseDelimitedText(file.name, text)
+    case 'tsv':
+      return parseDelimitedText(file.name, text, '\t')
+    case 'json':
+      return parseJsonText(file.name, text)
+  }
+}
@@ -0,0 +1,151 @@
+// Jira CSV export preset. Jira exports one row per issue with a timestamp
+// column per workflow event (Created, Resolved, Status Category Changed, and
+// any "Date entered ..." fields), often with the same header repeated. This
+// turns them into the plain ID/Start/End layout the column mapper expects.
+
+import { DateFormat, detectDateFormat, localeDateFormat, looksLikeDate, parseDate } from '@/lib/dates'
+import { CsvRow, getColumns, RawTable } from '@/lib/workItems'
+
+// A workflow state and every column that records a timestamp for it
+export interface JiraStateColumn {
+  state: string
+  columns: string[]
+}
+
+export interface JiraExportShape {
+  keyColumn: string
+  statusColumn: string | null
+  typeColumn: string | null
+  estimateColumn: string | null
+  teamColumn: string | null
+  states: JiraStateColumn[]
+  statuses: string[]
+  dateFormat: DateFormat
+}
+
+export interface JiraImportSettings {
+  startStates: string[]
+  doneStates: string[]
+  // Only issues currently in one of these statuses are treated as finished
+  doneStatuses: string[]
+}
+
+const findColumn = (columns: string[], names: string[]) =>
+  columns.find(col => names.includes(col.toLowerCase().trim())) || null
+
+// Papa renames repeated headers to "Name_1", "Name_2", ...
+function baseHeader(column: string, columns: string[]): string {
+  const match = column.match(/^(.*)_\d+$/)
+  return match && columns.includes(match[1]) ? match[1] : column
+}
+
+export function isJiraExport(rows: CsvRow[]): boolean {
+  const columns = getColumns(rows).map(col => col.toLowerCase().trim())
+  return columns.includes('issue key') && columns.includes('created') &&
+    (columns.includes('resolved') || columns.includes('status'))
+}
+
+export function describeJiraExport(rows: CsvRow[]): JiraExportShape {
+  const columns = getColumns(rows)
+  const keyColumn = findColumn(columns, ['issue key'])!
+  const statusColumn = findColumn(columns, ['status'])
+
+  // Any column whose filled-in values all look like dates is a state timestamp
+  const stateMap = new Map<string, string[]>()
+  columns.forEach(column => {
+    const values = rows.map(row => row[column]).filter(Boolean).slice(0, 20)
+    if (values.length === 0 || !values.every(value => looksLikeDate(value))) return
+
+    const state = baseHeader(column, columns)
+    stateMap.set(state, [...(stateMap.get(state) || []), column])
+  })
+
+  const states = Array.from(stateMap.entries()).map(([state, stateColumns]) => ({ state, columns: stateColumns }))
+  const dateValues = rows.flatMap(row => states.flatMap(({ columns }) => columns.map(col => row[col] || '')))
+  const detection = detectDateFormat(dateValues)
+
+  return {
+    keyColumn,
+    statusColumn,
+    typeColumn: findColumn(columns, ['issue type']),
+    estimateColumn: findColumn(columns, ['story points', 'custom field (story points)', 'custom field (story point estimate)']),
+    teamColumn: findColumn(columns, ['team', 'custom field (team)']),
+    states,
+    statuses: statusColumn
+      ? Array.from(new Set(rows.map(row => (row[statusColumn] || '').trim()).filter(Boolean))).sort()
+      : [],
+    dateFormat: detection.format || localeDateFormat()
+  }
+}
+
+// Sensible defaults: work starts when the status category first changes (if
+// the export repeats that column for each change) or at creation, and finishes
+// at resolution, for issues that have a resolution date
+export function defaultJiraSettings(rows: CsvRow[], shape: JiraExportShape): JiraImportSettings {
+  const stateNames = shape.states.map(({ state }) => state)
+  const pick = (preferred: string[]) =>
+    preferred.filter(name => stateNames.includes(name)).slice(0, 1)
+  const categoryChanges = shape.states.find(({ state }) => state === 'Status Category Changed')
+
+  const resolvedColumn = shape.states.find(({ state }) => state === 'Resolved')?.columns[0]
+  const doneStatuses = shape.statusColumn && resolvedColumn
+    ? shape.statuses.filter(status => rows.some(row => row[shape.statusColumn!]?.trim() === status && row[resolvedColumn]))
+    : shape.statuses
+
+  return {
+    startStates: categoryChanges && categoryChanges.columns.length > 1
+      ? [categoryChanges.state]
+      : pick(['Created']),
+    doneStates: pick(['Resolved', 'Status Category Changed']),
+    doneStatuses
+  }
+}
+
+// Pick the earliest or latest parseable timestamp across the given columns,
+// returning the original string so the mapper can re-detect its format
+function pickTimestamp(row: CsvRow, columns: string[], format: DateFormat, latest: boolean): string {
+  let bestValue = ''
+  let bestTimestamp: number | null = null
+
+  for (const column of columns) {
+    const value = (row[column] || '').trim()
+    const timestamp = value ? parseDate(value, format) : null
+    if (timestamp === null) continue
+
+    if (bestTimestamp === null || (latest ? timestamp > bestTimestamp : timestamp < bestTimestamp)) {
+      bestValue = value
+      bestTimestamp = timestamp
+    }
+  }
+
+  return bestValue
+}
+
+// Start is the first time any chosen start state was entered; done is the
+// last time any chosen done state was reached, so reopened issues count once
+export function convertJiraExport(table: RawTable, shape: JiraExportShape, settings: JiraImportSettings): RawTable {
+  const columnsFor = (stateNames: string[]) =>
+    shape.states.filter(({ state }) => stateNames.includes(state)).flatMap(({ columns }) => columns)
+  const startColumns = columnsFor(settings.startStates)
+  const doneColumns = columnsFor(settings.doneStates)
+  const createdColumns = columnsFor(['Created'])
+
+  const rows = table.rows.map(row => {
+    const status = shape.statusColumn ? (row[shape.statusColumn] || '').trim() : ''
+    const isDone = !shape.statusColumn || settings.doneStatuses.includes(status)
+
+    const converted: CsvRow = {
+      ID: row[shape.keyColumn] || '',
+      Start: pickTimestamp(row, startColumns, shape.dateFormat, false),
+      End: isDone ? pickTimestamp(row, doneColumns, shape.dateFormat, true) : ''
+    }
+    if (createdColumns.length > 0) converted.Created = pickTimestamp(row, createdColumns, shape.dateFormat, false)
+    if (shape.typeColumn) converted.Type = row[shape.typeColumn] || ''
+    if (shape.estimateColumn) converted.Estimate = row[shape.estimateColumn] || ''
+    if (shape.teamColumn) converted.Team = row[shape.teamColumn] || ''
+    if (shape.statusColumn) converted.Status = status
+    return converted
+  })
+
+  return { ...table, rows }
+}
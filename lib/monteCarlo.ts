@@ -0,0 +1,337 @@
+// Monte Carlo forecasting from historical throughput samples.
+
+import { DEFAULT_SAMPLING_SETTINGS, SamplingSettings } from '@/lib/throughput'
+
+export type ForecastMode = 'how-many' | 'when' | 'portfolio'
+
+// Where the scope growth rate comes from: typed in, or items created minus
+// items finished per period over the sampling window
+export type GrowthSource = 'manual' | 'created'
+
+// Where "how many" forecasts count from: today, or the working day after the
+// last completion in the data, for exports that are a few days old
+export type ForecastFrom = 'today' | 'last-completion'
+
+// How features in a portfolio share throughput: strictly in priority order,
+// or each with a percentage of every period's throughput
+export type AllocationMode = 'priority' | 'percentage'
+
+export interface PortfolioFeature {
+  name: string
+  items: number
+  // Percentage of throughput in percentage mode
+  allocation: number
+}
+
+export interface MonteCarloSettings {
+  mode: ForecastMode
+  numSimulations: number
+  forecastHorizon: number
+  // YYYY-MM-DD end date for "how many" forecasts, which replaces the horizon when set
+  targetDate: string | null
+  forecastFrom: ForecastFrom
+  backlogSize: number
+  // YYYY-MM-DD, or null to start from today
+  startDate: string | null
+  // Fixed seed for reproducible runs, or null for a fresh one each run
+  seed: number | null
+  sampling: SamplingSettings
+  // Forecast matrix rows: how many horizons, and periods between them
+  matrixRows: number
+  matrixStep: number
+  // Each backlog item becomes between splitLow and splitHigh items; 1 means no splitting
+  splitLow: number
+  splitHigh: number
+  growthSource: GrowthSource
+  // New items per period, when typed in
+  growthRate: number
+  // Past cut-off dates to replay when backtesting
+  backtestCutoffs: number
+  // Portfolio features, highest priority first
+  features: PortfolioFeature[]
+  allocationMode: AllocationMode
+}
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  mode: 'how-many',
+  numSimulations: 10000,
+  forecastHorizon: 14,
+  targetDate: null,
+  forecastFrom: 'today',
+  backlogSize: 40,
+  startDate: null,
+  seed: null,
+  sampling: DEFAULT_SAMPLING_SETTINGS,
+  matrixRows: 12,
+  matrixStep: 1,
+  splitLow: 1,
+  splitHigh: 1,
+  growthSource: 'manual',
+  growthRate: 0,
+  backtestCutoffs: 10,
+  features: [],
+  allocationMode: 'priority'
+}
+
+export interface HistogramBucket {
+  value: number
+  frequency: number
+}
+
+// Everything a run needs, posted to the simulation worker
+export interface SimulationRequest {
+  mode: ForecastMode
+  throughput: number[]
+  numSimulations: number
+  forecastHorizon: number
+  backlogSize: number
+  seed: number
+  // Extra horizons for the forecast matrix, in ascending periods
+  matrixHorizons: number[]
+  splitLow: number
+  splitHigh: number
+  // New items added to the backlog each period
+  growthRate: number
+  features: PortfolioFeature[]
+  allocationMode: AllocationMode
+}
+
+// 85% confidence periods with each backlog factor switched on by itself, to
+// show how far each one moves the forecast
+export interface FactorImpact {
+  baseline: number
+  split: number
+  growth: number
+}
+
+export interface SimulationOutput {
+  // One sorted result per run
+  results: number[]
+  // Sorted item counts per matrix horizon, in the same order as the request
+  horizonResults: number[][]
+  // Only for "when" runs that split or grow the backlog
+  factorImpact: FactorImpact | null
+  // Sorted periods to finish each portfolio feature, in the same order as the request
+  featureResults: number[][]
+  // "When" and portfolio runs that hadn't finished by MAX_PERIODS
+  unfinishedRuns: number
+}
+
+export type SimulationMessage =
+  | { type: 'progress', completed: number }
+  | { type: 'done', output: SimulationOutput }
+
+const PROGRESS_INTERVAL = 1000
+
+// A backlog growing as fast as it's worked on never finishes, so runs stop here
+export const MAX_PERIODS = 5000
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32)
+}
+
+// Mulberry32: small and fast, and the same seed always gives the same sequence
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function samplePeriod(throughput: number[], random: () => number): number {
+  return throughput[Math.floor(random() * throughput.length)]
+}
+
+// Running item totals after each checkpoint, which must be ascending
+function simulateItemCounts(throughput: number[], checkpoints: number[], random: () => number): number[] {
+  const totals: number[] = []
+  let totalItems = 0
+  let period = 0
+  checkpoints.forEach(checkpoint => {
+    for (; period < checkpoint; period++) {
+      totalItems += samplePeriod(throughput, random)
+    }
+    totals.push(totalItems)
+  })
+  return totals
+}
+
+interface BacklogFactors {
+  splitLow: number
+  splitHigh: number
+  growthRate: number
+}
+
+const NO_FACTORS: BacklogFactors = { splitLow: 1, splitHigh: 1, growthRate: 0 }
+
+// Sampled periods taken to finish `backlog` items. The backlog is split by a
+// factor drawn once per run, and grows by the growth rate every period.
+function simulatePeriodsToComplete(throughput: number[], backlog: number, factors: BacklogFactors, random: () => number): number {
+  const splitFactor = factors.splitLow + random() * (factors.splitHigh - factors.splitLow)
+  let remaining = Math.ceil(backlog * splitFactor)
+  let periods = 0
+  while (remaining > 0 && periods < MAX_PERIODS) {
+    remaining += factors.growthRate
+    remaining -= samplePeriod(throughput, random)
+    periods++
+  }
+  return periods
+}
+
+// Periods until each feature finishes. In priority order every finished item
+// goes to the first unfinished feature. With percentages each unfinished
+// feature gets its share of the period's throughput, so the shares of
+// finished features are spread over the rest.
+function simulatePortfolio(throughput: number[], features: PortfolioFeature[], allocationMode: AllocationMode, random: () => number): number[] {
+  const remaining = features.map(feature => feature.items)
+  const finishedIn = remaining.map((items): number => items > 0 ? MAX_PERIODS : 0)
+  for (let period = 1; period < MAX_PERIODS && remaining.some(items => items > 0); period++) {
+    let capacity = samplePeriod(throughput, random)
+    if (allocationMode === 'priority') {
+      for (let index = 0; index < remaining.length && capacity > 0; index++) {
+        const taken = Math.min(capacity, Math.max(0, remaining[index]))
+        remaining[index] -= taken
+        capacity -= taken
+      }
+    } else {
+      const open = features.map((_, index) => index).filter(index => remaining[index] > 0)
+      const totalShare = open.reduce((sum, index) => sum + features[index].allocation, 0)
+      open.forEach(index => {
+        remaining[index] -= totalShare > 0
+          ? capacity * features[index].allocation / totalShare
+          : capacity / open.length
+      })
+    }
+    remaining.forEach((items, index) => {
+      if (items <= 0 && finishedIn[index] > period) finishedIn[index] = period
+    })
+  }
+  return finishedIn
+}
+
+// Throughput with no finished items at all can never finish a backlog, so
+// "when" and portfolio runs give no results for it. Each run draws from its own generator,
+// seeded from the main one, so a seed gives the same forecast however many
+// matrix horizons are added, and the factor comparisons replay the same draws.
+export function runSimulation(request: SimulationRequest, onProgress?: (completed: number) => void): SimulationOutput {
+  const { mode, throughput, numSimulations, forecastHorizon, backlogSize, matrixHorizons } = request
+  const factors: BacklogFactors = { splitLow: request.splitLow, splitHigh: request.splitHigh, growthRate: request.growthRate }
+  const output: SimulationOutput = {
+    results: [],
+    horizonResults: matrixHorizons.map(() => []),
+    factorImpact: null,
+    featureResults: request.features.map(() => []),
+    unfinishedRuns: 0
+  }
+  if (mode !== 'how-many' && !throughput.some(count => count > 0)) return output
+
+  const hasSplit = factors.splitLow !== 1 || factors.splitHigh !== 1
+  const hasGrowth = factors.growthRate > 0
+  const compareFactors = mode === 'when' && (hasSplit || hasGrowth)
+  const comparisons: Record<keyof FactorImpact, number[]> = { baseline: [], split: [], growth: [] }
+
+  const checkpoints = Array.from(new Set([forecastHorizon, ...matrixHorizons])).sort((a, b) => a - b)
+  const random = createRandom(request.seed)
+  for (let run = 0; run < numSimulations; run++) {
+    const runSeed = Math.floor(random() * 2 ** 32)
+    if (mode === 'how-many') {
+      const totals = simulateItemCounts(throughput, checkpoints, createRandom(runSeed))
+      output.results.push(totals[checkpoints.indexOf(forecastHorizon)])
+      matrixHorizons.forEach((horizon, index) => {
+        output.horizonResults[index].push(totals[checkpoints.indexOf(horizon)])
+      })
+    } else if (mode === 'portfolio') {
+      // The portfolio is done when its last feature is
+      const periods = simulatePortfolio(throughput, request.features, request.allocationMode, createRandom(runSeed))
+      periods.forEach((featurePeriods, index) => output.featureResults[index].push(featurePeriods))
+      const allDone = Math.max(0, ...periods)
+      output.results.push(allDone)
+      if (allDone >= MAX_PERIODS) output.unfinishedRuns++
+    } else {
+      const periods = simulatePeriodsToComplete(throughput, backlogSize, factors, createRandom(runSeed))
+      output.results.push(periods)
+      if (periods >= MAX_PERIODS) output.unfinishedRuns++
+
+      if (compareFactors) {
+        const replay = (runFactors: BacklogFactors) =>
+          simulatePeriodsToComplete(throughput, backlogSize, runFactors, createRandom(runSeed))
+        comparisons.baseline.push(replay(NO_FACTORS))
+        comparisons.split.push(replay({ ...factors, growthRate: 0 }))
+        comparisons.growth.push(replay({ ...factors, splitLow: 1, splitHigh: 1 }))
+      }
+    }
+
+    if (onProgress && (run + 1) % PROGRESS_INTERVAL === 0) {
+      onProgress(run + 1)
+    }
+  }
+
+  output.results.sort((a, b) => a - b)
+  output.horizonResults.forEach(results => results.sort((a, b) => a - b))
+  output.featureResults.forEach(results => results.sort((a, b) => a - b))
+  if (compareFactors) {
+    const at85 = (results: number[]) => confidenceValue(results.sort((a, b) => a - b), 'when', 0.85)
+    output.factorImpact = {
+      baseline: at85(comparisons.baseline),
+      split: at85(comparisons.split),
+      growth: at85(comparisons.growth)
+    }
+  }
+  return output
+}
+
+// Value at a fraction of the way through sorted results
+export function percentileOf(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] || 0
+}
+
+export function buildHistogram(sorted: number[]): HistogramBucket[] {
+  const buckets: HistogramBucket[] = []
+  sorted.forEach(value => {
+    const last = buckets[buckets.length - 1]
+    if (last && last.value === value) {
+      last.frequency++
+    } else {
+      buckets.push({ value, frequency: 1 })
+    }
+  })
+  return buckets
+}
+
+// Result that this share of runs met or beat. More items is better in
+// "how many" mode, and fewer periods is better in "when" and portfolio modes, so 85%
+// confidence is the 15th and 85th percentile respectively.
+export function confidenceValue(sorted: number[], mode: ForecastMode, level: number): number {
+  return percentileOf(sorted, mode === 'how-many' ? 1 - level : level)
+}
+
+// Share of runs that met or beat a result: at least this many items, or
+// finished within this many periods
+export function probabilityOf(sorted: number[], mode: ForecastMode, value: number): number {
+  if (sorted.length === 0) return 0
+  const matching = mode === 'how-many'
+    ? sorted.filter(result => result >= value).length
+    : sorted.filter(result => result <= value).length
+  return matching / sorted.length
+}
+
+export interface CumulativePoint {
+  value: number
+  probability: number
+}
+
+// One point per distinct result, for the S-curve
+export function cumulativeProbabilities(sorted: number[], mode: ForecastMode): CumulativePoint[] {
+  let below = 0
+  return buildHistogram(sorted).map(({ value, frequency }) => {
+    const probability = mode === 'how-many'
+      ? (sorted.length - below) / sorted.length
+      : (below + frequency) / sorted.length
+    below += frequency
+    return { value, probability }
+  })
+}
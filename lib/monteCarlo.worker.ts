@@ -0,0 +1,10 @@
+// Runs Monte Carlo simulations off the main thread so large runs don't freeze the page.
+
+import { runSimulation, SimulationMessage, SimulationRequest } from '@/lib/monteCarlo'
+
+const post = (message: SimulationMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const output = runSimulation(event.data, completed => post({ type: 'progress', completed }))
+  post({ type: 'done', output })
+}
@@ -0,0 +1,239 @@
+// XmR (individuals and moving range) limits and the detection rules used to
+// spot special cause variation on process behaviour charts.
+
+import { addWorkingDays, nextWorkingDay, WorkingCalendar } from '@/lib/calendar'
+import { parseDate, startOfDay } from '@/lib/dates'
+import { DEFAULT_SAMPLING_SETTINGS, sampleThroughput, ThroughputSample, workingDayThroughput } from '@/lib/throughput'
+import { WorkItemDataset } from '@/lib/workItems'
+
+export type DetectionRule = 'beyond-limits' | 'run-of-eight' | 'three-of-four' | 'moving-range'
+
+export const DETECTION_RULES: Array<{ rule: DetectionRule, label: string, description: string }> = [
+  { rule: 'beyond-limits', label: 'Beyond limits', description: 'A point above the UPL or below the LPL' },
+  { rule: 'run-of-eight', label: 'Run of 8', description: '8 or more points in a row on the same side of the central line' },
+  { rule: 'three-of-four', label: '3 of 4 beyond 2σ', description: '3 out of 4 points in a row more than two sigma from the central line, on the same side' },
+  { rule: 'moving-range', label: 'Large moving range', description: 'A moving range above the URL' }
+]
+
+export type ProcessMetric = 'cycle-time' | 'weekly-throughput' | 'daily-throughput' | 'daily-wip'
+
+export const PROCESS_METRICS: Array<{ metric: ProcessMetric, label: string, axisLabel: string }> = [
+  { metric: 'cycle-time', label: 'Cycle Time', axisLabel: 'Cycle Time (days)' },
+  { metric: 'weekly-throughput', label: 'Weekly Throughput', axisLabel: 'Items finished per week' },
+  { metric: 'daily-throughput', label: 'Daily Throughput', axisLabel: 'Items finished per working day' },
+  { metric: 'daily-wip', label: 'Daily WIP', axisLabel: 'Items in progress' }
+]
+
+export interface ProcessBehaviourSettings {
+  metric: ProcessMetric
+  // Detection rules that are switched on
+  rules: DetectionRule[]
+  // YYYY-MM-DD range the limits are computed from, then projected over the
+  // rest of its phase; null means the edge of the data
+  baselineFrom: string | null
+  baselineTo: string | null
+  // YYYY-MM-DD dates that each start a new phase with its own limits, sorted
+  phaseStarts: string[]
+}
+
+export const DEFAULT_PROCESS_BEHAVIOUR_SETTINGS: ProcessBehaviourSettings = {
+  metric: 'cycle-time',
+  rules: DETECTION_RULES.map(({ rule }) => rule),
+  baselineFrom: null,
+  baselineTo: null,
+  phaseStarts: []
+}
+
+export interface XmrLimits {
+  centralLine: number
+  upperProcessLimit: number
+  lowerProcessLimit: number
+  averageMovingRange: number
+  upperRangeLimit: number
+}
+
+// Shewhart scaling constants for individuals charts
+const NATURAL_PROCESS_LIMIT = 2.66
+const UPPER_RANGE_LIMIT = 3.27
+const D2 = 1.128
+
+const RUN_LENGTH = 8
+
+// Absolute differences between consecutive values, one fewer than the values
+export function movingRanges(values: number[]): number[] {
+  return values.slice(1).map((value, index) => Math.abs(value - values[index]))
+}
+
+// Limits from the mean and average moving range. The metrics charted here
+// can't go below zero, so neither can the lower limit.
+export function xmrLimits(values: number[]): XmrLimits {
+  const centralLine = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+  const ranges = movingRanges(values)
+  const averageMovingRange = ranges.length > 0 ? ranges.reduce((sum, range) => sum + range, 0) / ranges.length : 0
+
+  return {
+    centralLine,
+    upperProcessLimit: centralLine + NATURAL_PROCESS_LIMIT * averageMovingRange,
+    lowerProcessLimit: Math.max(0, centralLine - NATURAL_PROCESS_LIMIT * averageMovingRange),
+    averageMovingRange,
+    upperRangeLimit: UPPER_RANGE_LIMIT * averageMovingRange
+  }
+}
+
+// Rules that fired for each value, in DETECTION_RULES order. Every point in a
+// qualifying run or 3-of-4 window is tagged, and a large moving range tags the
+// later of its two points.
+export function detectSignals(values: number[], limits: XmrLimits, rules: DetectionRule[]): DetectionRule[][] {
+  const fired = values.map(() => new Set<DetectionRule>())
+  const side = (value: number) => Math.sign(value - limits.centralLine)
+
+  if (rules.includes('beyond-limits')) {
+    values.forEach((value, index) => {
+      if (value > limits.upperProcessLimit || value < limits.lowerProcessLimit) fired[index].add('beyond-limits')
+    })
+  }
+
+  if (rules.includes('run-of-eight')) {
+    // Points on the central line break a run
+    let runStart = 0
+    for (let index = 1; index <= values.length; index++) {
+      const runSide = side(values[runStart])
+      if (index < values.length && runSide !== 0 && side(values[index]) === runSide) continue
+      if (runSide !== 0 && index - runStart >= RUN_LENGTH) {
+        for (let i = runStart; i < index; i++) fired[i].add('run-of-eight')
+      }
+      runStart = index
+    }
+  }
+
+  if (rules.includes('three-of-four')) {
+    const twoSigma = 2 * limits.averageMovingRange / D2
+    const beyond = (value: number, direction: number) => direction * (value - limits.centralLine) > twoSigma
+    for (let start = 0; start + 4 <= values.length; start++) {
+      for (const direction of [1, -1]) {
+        const hits = [0, 1, 2, 3].filter(offset => beyond(values[start + offset], direction))
+        if (hits.length >= 3) hits.forEach(offset => fired[start + offset].add('three-of-four'))
+      }
+    }
+  }
+
+  if (rules.includes('moving-range')) {
+    movingRanges(values).forEach((range, index) => {
+      if (range > limits.upperRangeLimit) fired[index + 1].add('moving-range')
+    })
+  }
+
+  return fired.map(set => DETECTION_RULES.map(({ rule }) => rule).filter(rule => set.has(rule)))
+}
+
+export interface ChartPhase {
+  // Index of the first point in the phase, and one past the last
+  start: number
+  end: number
+  // Index range of the baseline points the limits were computed from, or
+  // null when they come from the whole phase
+  baseline: { start: number, end: number } | null
+  // True when the baseline range overlaps the phase but holds fewer than two
+  // points, so the limits fell back to the whole phase
+  baselineIgnored: boolean
+  limits: XmrLimits
+}
+
+export interface XmrPoint {
+  value: number
+  // Null for the first point of each phase
+  movingRange: number | null
+  phase: number
+  signals: DetectionRule[]
+}
+
+export function hasBaseline(settings: ProcessBehaviourSettings): boolean {
+  return Boolean(settings.baselineFrom || settings.baselineTo)
+}
+
+// Splits dated values into phases and works out each phase's limits and
+// signals. A phase that overlaps the baseline range takes its limits from the
+// baseline points and projects them over the rest of the phase; other phases
+// use all of their points. Moving ranges and runs don't cross phase boundaries.
+export function analyseXmr(values: number[], dates: number[], settings: ProcessBehaviourSettings): { points: XmrPoint[], phases: ChartPhase[] } {
+  const boundaries = settings.phaseStarts
+    .map(date => parseDate(date, 'iso'))
+    .filter((date): date is number => date !== null)
+    .sort((a, b) => a - b)
+  const from = (settings.baselineFrom && parseDate(settings.baselineFrom, 'iso')) || -Infinity
+  const to = settings.baselineTo ? (parseDate(settings.baselineTo, 'iso') ?? Infinity) + 86400000 - 1 : Infinity
+
+  const phases: ChartPhase[] = []
+  const points: XmrPoint[] = []
+  let start = 0
+  for (let boundary = 0; boundary <= boundaries.length; boundary++) {
+    let end = start
+    while (end < values.length && (boundary === boundaries.length || dates[end] < boundaries[boundary])) end++
+    if (end === start) continue
+
+    // Dates are sorted, so the baseline points are a single run within the phase
+    const phaseValues = values.slice(start, end)
+    const inBaseline = phaseValues.map((_, index) => dates[start + index] >= from && dates[start + index] <= to)
+    const first = inBaseline.indexOf(true)
+    const last = inBaseline.lastIndexOf(true)
+    const baseline = hasBaseline(settings) && first >= 0 && last > first
+      ? { start: start + first, end: start + last + 1 }
+      : null
+    // The phase covers the dates from its boundary up to the next one
+    const phaseFrom = boundary > 0 ? boundaries[boundary - 1] : -Infinity
+    const phaseTo = boundary < boundaries.length ? boundaries[boundary] : Infinity
+    const baselineIgnored = hasBaseline(settings) && baseline === null && from < phaseTo && to >= phaseFrom
+    const limits = xmrLimits(baseline ? values.slice(baseline.start, baseline.end) : phaseValues)
+    const ranges = movingRanges(phaseValues)
+    const signals = detectSignals(phaseValues, limits, settings.rules)
+
+    phaseValues.forEach((value, index) => {
+      points.push({
+        value,
+        movingRange: index > 0 ? ranges[index - 1] : null,
+        phase: phases.length,
+        signals: signals[index]
+      })
+    })
+    phases.push({ start, end, baseline, baselineIgnored, limits })
+    start = end
+  }
+
+  return { points, phases }
+}
+
+// Items in progress on each working day, from the first start to the last
+// start or finish. An item counts on the days it started and finished, and
+// items still open at the end of the data count every day after their start.
+export function dailyWorkInProgress(dataset: WorkItemDataset, calendar: WorkingCalendar): ThroughputSample[] {
+  // Items that ended before they started are left out rather than counted negative
+  const spans = dataset.items.filter(item => item.startDate !== null && item.startDate <= item.endDate)
+  const starts = [
+    ...spans.map(item => startOfDay(item.startDate as number)),
+    ...dataset.inProgress.map(startOfDay)
+  ].sort((a, b) => a - b)
+  if (starts.length === 0) return []
+
+  const ends = spans.map(item => startOfDay(item.endDate)).sort((a, b) => a - b)
+  const last = Math.max(starts[starts.length - 1], ends.length > 0 ? ends[ends.length - 1] : 0)
+
+  const samples: ThroughputSample[] = []
+  let started = 0
+  let finished = 0
+  for (let day = nextWorkingDay(starts[0], calendar); day <= last; day = addWorkingDays(day, 1, calendar)) {
+    while (started < starts.length && starts[started] <= day) started++
+    while (finished < ends.length && ends[finished] < day) finished++
+    samples.push({ start: day, end: day, count: started - finished })
+  }
+  return samples
+}
+
+// Values to chart for a period metric, one per working day or week
+export function metricSeries(metric: Exclude<ProcessMetric, 'cycle-time'>, dataset: WorkItemDataset, calendar: WorkingCalendar): ThroughputSample[] {
+  if (metric === 'daily-wip') return dailyWorkInProgress(dataset, calendar)
+
+  const days = workingDayThroughput(dataset.items.map(item => item.endDate), calendar)
+  return metric === 'daily-throughput'
+    ? days
+    : sampleThroughput(days, { ...DEFAULT_SAMPLING_SETTINGS, granularity: 'weekly' })
+}
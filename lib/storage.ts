@@ -0,0 +1,148 @@
+// Saved datasets, kept in the browser's IndexedDB so nothing leaves the machine.
+// Rows live in their own store so that saving a changed setting doesn't
+// rewrite every uploaded file.
+
+import { WorkingCalendar } from '@/lib/calendar'
+import { CycleTimeSettings } from '@/lib/cycleTime'
+import { MonteCarloSettings } from '@/lib/monteCarlo'
+import { ProcessBehaviourSettings } from '@/lib/processBehaviour'
+import { ColumnMapping, ImportOptions, RawTable } from '@/lib/workItems'
+
+// Settings each analysis wants remembered alongside its dataset
+export interface AnalysisSettings {
+  calendar?: WorkingCalendar
+  cycleTime?: CycleTimeSettings
+  monteCarlo?: MonteCarloSettings
+  processBehaviour?: ProcessBehaviourSettings
+}
+
+export interface SavedDataset {
+  id: string
+  name: string
+  fileNames: string[]
+  rowCount: number
+  savedAt: number
+  mapping: ColumnMapping
+  options: ImportOptions | null
+  settings: AnalysisSettings
+}
+
+interface SavedTables {
+  id: string
+  tables: RawTable[]
+}
+
+const DB_NAME = 'metrics-analyzer'
+const DB_VERSION = 1
+const DATASET_STORE = 'datasets'
+const TABLE_STORE = 'tables'
+const ACTIVE_DATASET_KEY = 'activeDatasetId'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot save datasets'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DATASET_STORE, { keyPath: 'id' })
+        request.result.createObjectStore(TABLE_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again, e.g. after the user allows storage
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function createDatasetId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function describeTables(tables: RawTable[]): Pick<SavedDataset, 'name' | 'fileNames' | 'rowCount'> {
+  const fileNames = tables.map(table => table.name)
+  return {
+    name: fileNames.length > 2 ? `${fileNames[0]} and ${fileNames.length - 1} more` : fileNames.join(' + '),
+    fileNames,
+    rowCount: tables.reduce((sum, table) => sum + table.rows.length, 0)
+  }
+}
+
+// Most recently saved first
+export async function listDatasets(): Promise<SavedDataset[]> {
+  const db = await openDatabase()
+  const datasets = await requestResult<SavedDataset[]>(
+    db.transaction(DATASET_STORE).objectStore(DATASET_STORE).getAll()
+  )
+  return datasets.sort((a, b) => b.savedAt - a.savedAt)
+}
+
+export async function loadDataset(id: string): Promise<{ dataset: SavedDataset, tables: RawTable[] } | null> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DATASET_STORE, TABLE_STORE])
+  const [dataset, saved] = await Promise.all([
+    requestResult<SavedDataset | undefined>(transaction.objectStore(DATASET_STORE).get(id)),
+    requestResult<SavedTables | undefined>(transaction.objectStore(TABLE_STORE).get(id))
+  ])
+  if (!dataset || !saved) return null
+  return { dataset, tables: saved.tables }
+}
+
+export async function saveDataset(dataset: SavedDataset): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(DATASET_STORE, 'readwrite')
+  transaction.objectStore(DATASET_STORE).put(dataset)
+  await transactionDone(transaction)
+}
+
+export async function saveTables(id: string, tables: RawTable[]): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(TABLE_STORE, 'readwrite')
+  transaction.objectStore(TABLE_STORE).put({ id, tables } satisfies SavedTables)
+  await transactionDone(transaction)
+}
+
+export async function deleteDataset(id: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DATASET_STORE, TABLE_STORE], 'readwrite')
+  transaction.objectStore(DATASET_STORE).delete(id)
+  transaction.objectStore(TABLE_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+// The dataset that was open when the page was last left, so a refresh can reopen it
+export function getActiveDatasetId(): string | null {
+  return localStorage.getItem(ACTIVE_DATASET_KEY)
+}
+
+export function setActiveDatasetId(id: string | null) {
+  if (id) {
+    localStorage.setItem(ACTIVE_DATASET_KEY, id)
+  } else {
+    localStorage.removeItem(ACTIVE_DATASET_KEY)
+  }
+}
@@ -0,0 +1,147 @@
+// Historical throughput for forecasting: finished items per working day,
+// narrowed to a sampling window and grouped into days, weeks or sprints.
+
+import { addWorkingDays, countWorkingDays, nextWorkingDay, WorkingCalendar } from '@/lib/calendar'
+import { addDays, parseDate, startOfDay } from '@/lib/dates'
+
+export type SamplingWindowType = 'all' | 'last' | 'range'
+export type WindowUnit = 'days' | 'weeks'
+export type Granularity = 'daily' | 'weekly' | 'sprint'
+
+export interface SamplingSettings {
+  windowType: SamplingWindowType
+  windowCount: number
+  windowUnit: WindowUnit
+  // YYYY-MM-DD bounds for a date range; null means the edge of the data
+  windowFrom: string | null
+  windowTo: string | null
+  granularity: Granularity
+  sprintWeeks: number
+  // Any day a sprint started on, to line buckets up with real sprints
+  sprintStart: string | null
+}
+
+export const DEFAULT_SAMPLING_SETTINGS: SamplingSettings = {
+  windowType: 'all',
+  windowCount: 12,
+  windowUnit: 'weeks',
+  windowFrom: null,
+  windowTo: null,
+  granularity: 'daily',
+  sprintWeeks: 2,
+  sprintStart: null
+}
+
+export interface ThroughputSample {
+  // First and last day covered by the sample
+  start: number
+  end: number
+  count: number
+}
+
+// Items finished on each working day from the first completion to the last,
+// with zeros filled in. Work finished on a weekend or holiday counts towards
+// the next working day. End dates must be sorted.
+export function workingDayThroughput(endDates: number[], calendar: WorkingCalendar): ThroughputSample[] {
+  if (endDates.length === 0) return []
+
+  const counts = new Map<number, number>()
+  endDates.forEach(endDate => {
+    const day = nextWorkingDay(endDate, calendar)
+    counts.set(day, (counts.get(day) || 0) + 1)
+  })
+
+  const samples: ThroughputSample[] = []
+  const last = nextWorkingDay(endDates[endDates.length - 1], calendar)
+  for (let day = nextWorkingDay(endDates[0], calendar); day <= last; day = addWorkingDays(day, 1, calendar)) {
+    samples.push({ start: day, end: day, count: counts.get(day) || 0 })
+  }
+  return samples
+}
+
+// Calendar days in one weekly or sprint bucket
+export function bucketLength(settings: SamplingSettings): number {
+  return settings.granularity === 'sprint' ? settings.sprintWeeks * 7 : 7
+}
+
+// First and last day to sample from. "Last N" counts back from the latest
+// completion rather than today, so older exports still work.
+export function samplingRange(days: ThroughputSample[], settings: SamplingSettings): { from: number, to: number } {
+  const first = days[0].start
+  const last = days[days.length - 1].end
+
+  switch (settings.windowType) {
+    case 'all':
+      return { from: first, to: last }
+    case 'last': {
+      const length = settings.windowUnit === 'weeks' ? settings.windowCount * 7 : settings.windowCount
+      return { from: addDays(last, 1 - length), to: last }
+    }
+    case 'range':
+      return {
+        from: (settings.windowFrom && parseDate(settings.windowFrom, 'iso')) || first,
+        to: (settings.windowTo && parseDate(settings.windowTo, 'iso')) || last
+      }
+  }
+}
+
+// Throughput samples inside the window at the chosen granularity. Weekly and
+// sprint buckets end on the last day of the window, or on the last sprint
+// boundary before it, and any partial bucket at the start is dropped.
+export function sampleThroughput(days: ThroughputSample[], settings: SamplingSettings): ThroughputSample[] {
+  if (days.length === 0) return []
+
+  const { from, to } = samplingRange(days, settings)
+  const inWindow = days.filter(day => day.start >= from && day.end <= to)
+  if (settings.granularity === 'daily') return inWindow
+
+  const length = bucketLength(settings)
+  let lastEnd = startOfDay(to)
+  const anchor = settings.sprintStart && parseDate(settings.sprintStart, 'iso')
+  if (settings.granularity === 'sprint' && anchor) {
+    // Step from the anchor to the last sprint that finishes inside the window
+    const periods = Math.floor((Math.round((lastEnd - anchor) / 86400000) + 1) / length)
+    lastEnd = addDays(anchor, periods * length - 1)
+  }
+
+  // Buckets stop at the first completion, so a window reaching back before
+  // the data doesn't pad the history with empty weeks
+  const earliest = startOfDay(Math.max(from, days[0].start))
+  const buckets: ThroughputSample[] = []
+  for (let end = lastEnd; addDays(end, 1 - length) >= earliest; end = addDays(end, -length)) {
+    const start = addDays(end, 1 - length)
+    const count = inWindow
+      .filter(day => day.start >= start && day.start <= end)
+      .reduce((sum, day) => sum + day.count, 0)
+    buckets.unshift({ start, end, count })
+  }
+  return buckets
+}
+
+// Forecast periods start on the start date. Daily forecasts count working
+// days from there; weekly and sprint forecasts count whole buckets.
+export function periodEndDate(start: number, periods: number, settings: SamplingSettings, calendar: WorkingCalendar): number {
+  return settings.granularity === 'daily'
+    ? addWorkingDays(start, periods - 1, calendar)
+    : addDays(start, periods * bucketLength(settings) - 1)
+}
+
+// Whole forecast periods finished by the end of the given day
+export function periodsUntil(start: number, date: number, settings: SamplingSettings, calendar: WorkingCalendar): number {
+  if (settings.granularity === 'daily') {
+    return countWorkingDays(start, date, calendar)
+  }
+  const days = Math.round((startOfDay(date) - startOfDay(start)) / 86400000) + 1
+  return Math.max(0, Math.floor(days / bucketLength(settings)))
+}
+
+export function granularityUnit(granularity: Granularity): { singular: string, plural: string } {
+  switch (granularity) {
+    case 'daily':
+      return { singular: 'working day', plural: 'working days' }
+    case 'weekly':
+      return { singular: 'week', plural: 'weeks' }
+    case 'sprint':
+      return { singular: 'sprint', plural: 'sprints' }
+  }
+}
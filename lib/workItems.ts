@@ -0,0 +1,530 @@
+// Shared work item model. Raw CSV rows are turned into WorkItems once, right
+// after upload, so every analysis works from the same columns and parsed dates.
+
+import { countCycleTimeDays, CycleTimeOptions } from '@/lib/cycleTime'
+import { DateFormat, DateFormatDetection, DATE_FORMATS, detectDateFormat, formatDate, looksLikeDate, parseDate } from '@/lib/dates'
+
+export type CsvRow = Record<string, string>
+
+// 'skipped' rows never become work items; 'warning' rows are kept but suspect
+export type IssueSeverity = 'skipped' | 'warning'
+
+export interface DataIssue {
+  // Name of the file (or paste) the row came from, filled in when building items
+  source: string | null
+  // Position of that file among the uploaded tables, since two files can share a name
+  sourceIndex: number | null
+  // 1-based line in the source file (the header is line 1), if known
+  line: number | null
+  itemId: string | null
+  severity: IssueSeverity
+  reason: string
+}
+
+// Rows as they came out of one file, plus anything the parser complained about
+export interface RawTable {
+  name: string
+  rows: CsvRow[]
+  issues: DataIssue[]
+}
+
+export type ColumnRole = 'id' | 'start' | 'end' | 'created' | 'cycleTime' | 'estimate' | 'type' | 'team'
+
+export type ColumnMapping = Partial<Record<ColumnRole, string>>
+
+export interface WorkItem {
+  key: string
+  id: string
+  source: string
+  // Position of the source file among the uploaded tables
+  sourceIndex: number
+  line: number
+  startDate: number | null
+  endDate: number
+  originalEndDate: string
+  cycleTime: number | null
+  // Cycle time counted from the start and end dates, when both are known
+  derivedCycleTime: number | null
+  // True when a cycle time column value disagrees with the dates
+  cycleTimeMismatch: boolean
+  estimate: number | null
+  type: string | null
+  team: string | null
+  // Every value from the source row, for grouping by columns without a role
+  fields: CsvRow
+}
+
+// A row with a cycle time but no usable end date, kept for analyses that
+// don't need dates such as comparing estimates with cycle times
+export type UndatedWorkItem = Omit<WorkItem, 'endDate' | 'originalEndDate' | 'derivedCycleTime' | 'cycleTimeMismatch'>
+
+// How to resolve rows that share an ID, e.g. across overlapping exports
+export type DuplicatePolicy = 'latest-end' | 'last-file' | 'first-file' | 'keep-all'
+
+export const DUPLICATE_POLICIES: Array<{ policy: DuplicatePolicy, label: string }> = [
+  { policy: 'latest-end', label: 'Keep the row with the latest End date' },
+  { policy: 'last-file', label: 'Keep the row from the most recently added file' },
+  { policy: 'first-file', label: 'Keep the row from the first file' },
+  { policy: 'keep-all', label: 'Keep every row (just warn)' }
+]
+
+export interface ImportOptions extends CycleTimeOptions {
+  // Files this format can't read fall back to their own, see tableDateFormat
+  dateFormat: DateFormat
+  duplicatePolicy: DuplicatePolicy
+}
+
+export interface WorkItemDataset {
+  columns: string[]
+  mapping: ColumnMapping
+  options: ImportOptions
+  items: WorkItem[]
+  undatedItems: UndatedWorkItem[]
+  // Creation dates of every row with one, finished or not, sorted
+  arrivals: number[]
+  // Start dates of rows that have started but not finished, sorted
+  inProgress: number[]
+  issues: DataIssue[]
+}
+
+// No single column is required: each analysis lists the roles it needs
+export const COLUMN_ROLES: Array<{ role: ColumnRole, label: string }> = [
+  { role: 'id', label: 'ID' },
+  { role: 'start', label: 'Start Date' },
+  { role: 'end', label: 'End Date' },
+  { role: 'created', label: 'Created Date' },
+  { role: 'cycleTime', label: 'Cycle Time' },
+  { role: 'estimate', label: 'Estimate' },
+  { role: 'type', label: 'Type' },
+  { role: 'team', label: 'Team' }
+]
+
+// Column names we recognise for each role (compared lower-cased)
+const COLUMN_NAMES: Record<ColumnRole, string[]> = {
+  id: ['id', 'key', 'issue key'],
+  start: ['start', 'start date', 'started'],
+  end: ['end', 'end date', 'resolved', 'done', 'completed'],
+  created: ['created', 'created date', 'creation date', 'date created'],
+  cycleTime: ['ct', 'cycle time'],
+  estimate: ['estimate', 'est', 'story points', 'points'],
+  type: ['type', 'issue type', 'work item type'],
+  team: ['team']
+}
+
+// Cycle time can come from its own column or be derived from start and end dates
+export function isRoleAvailable(mapping: ColumnMapping, role: ColumnRole): boolean {
+  if (role === 'cycleTime') {
+    return Boolean(mapping.cycleTime || (mapping.start && mapping.end))
+  }
+  return Boolean(mapping[role])
+}
+
+// Every column seen in any row, in first-seen order, since merged files and
+// short rows don't all share the same keys
+export function getColumns(rows: CsvRow[]): string[] {
+  const columns = new Set<string>()
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)))
+  return Array.from(columns)
+}
+
+export function allRows(tables: RawTable[]): CsvRow[] {
+  return tables.flatMap(table => table.rows)
+}
+
+export function detectColumnMapping(rows: CsvRow[]): ColumnMapping {
+  const columns = getColumns(rows)
+  const mapping: ColumnMapping = {}
+
+  // Names are listed in order of preference, so "Start" wins over "Start Date"
+  COLUMN_ROLES.forEach(({ role }) => {
+    const column = COLUMN_NAMES[role]
+      .map(name => columns.find(col => col.toLowerCase().trim() === name))
+      .find(Boolean)
+    if (column) {
+      mapping[role] = column
+    }
+  })
+
+  // Fall back to sniffing sample values only for the columns we couldn't name
+  if (!mapping.end || !mapping.cycleTime) {
+    const assigned = new Set(Object.values(mapping).filter(Boolean))
+
+    for (const col of columns) {
+      if (assigned.has(col)) continue
+      const sampleValues = rows.slice(0, 5).map(row => row[col]).filter(Boolean)
+      if (sampleValues.length === 0) continue
+
+      if (!mapping.end && sampleValues.some(val => looksLikeDate(val))) {
+        mapping.end = col
+        assigned.add(col)
+        continue
+      }
+
+      if (!mapping.cycleTime) {
+        const isCycleTimeColumn = sampleValues.every(val => {
+          const num = parseFloat(val)
+          return !isNaN(num) && num >= 0 && num <= 100 // stricter range to avoid "Estimate"
+        })
+
+        if (isCycleTimeColumn) {
+          mapping.cycleTime = col
+          assigned.add(col)
+        }
+      }
+    }
+  }
+
+  return mapping
+}
+
+// Detect the date format across every value in the mapped date columns
+export function detectMappedDateFormat(rows: CsvRow[], mapping: ColumnMapping): DateFormatDetection {
+  const dateColumns = [mapping.start, mapping.end, mapping.created].filter((col): col is string => Boolean(col))
+  return detectDateFormat(rows.flatMap(row => dateColumns.map(col => row[col] || '')))
+}
+
+// Merged files can write dates differently, e.g. Excel serials in a workbook
+// and text in a CSV, so the chosen format applies to each table only where it
+// reads that table as well as any other; the rest use their own best format
+export function tableDateFormat(detection: DateFormatDetection, chosen: DateFormat): DateFormat {
+  return detection.format === null || detection.candidates.includes(chosen) ? chosen : detection.format
+}
+
+// Data rows start on line 2, after the header
+export function lineNumber(rowIndex: number): number {
+  return rowIndex + 2
+}
+
+function isEmptyRow(row: CsvRow): boolean {
+  return Object.values(row).every(value => value === undefined || value === null || value.toString().trim() === '')
+}
+
+// Turn one table's rows into work items, recording why any row was left out
+function readTable(table: RawTable, tableIndex: number, mapping: ColumnMapping, options: ImportOptions) {
+  const { rows } = table
+  const readColumn = (row: CsvRow, role: ColumnRole) => {
+    const column = mapping[role]
+    return column && row[column] ? row[column].toString().trim() : ''
+  }
+  const dateFormat = tableDateFormat(detectMappedDateFormat(rows, mapping), options.dateFormat)
+  const formatLabel = DATE_FORMATS.find(f => f.format === dateFormat)?.label || dateFormat
+
+  const items: WorkItem[] = []
+  const undatedItems: UndatedWorkItem[] = []
+  const arrivals: Array<{ id: string | null, created: number }> = []
+  const inProgress: Array<{ id: string | null, start: number }> = []
+  const issues: DataIssue[] = []
+  const emptyLines = new Set<number>()
+  // Items whose ID was made up because the ID cell was blank
+  const unidentified = new Set<UndatedWorkItem>()
+
+  // Empty rows at the end of the file are usually just trailing newlines
+  let lastNonEmptyIndex = rows.length - 1
+  while (lastNonEmptyIndex >= 0 && isEmptyRow(rows[lastNonEmptyIndex])) {
+    lastNonEmptyIndex--
+  }
+
+  rows.forEach((row, index) => {
+    const line = lineNumber(index)
+
+    if (isEmptyRow(row)) {
+      emptyLines.add(line)
+      issues.push({
+        source: table.name,
+        sourceIndex: tableIndex,
+        line,
+        itemId: null,
+        severity: 'skipped',
+        reason: index > lastNonEmptyIndex ? 'Empty trailing row' : 'Empty row'
+      })
+      return
+    }
+
+    const mappedId = readColumn(row, 'id')
+    const id = mappedId || `Item-${index + 1}`
+    const addIssue = (severity: IssueSeverity, reason: string) =>
+      issues.push({ source: table.name, sourceIndex: tableIndex, line, itemId: mappedId || null, severity, reason })
+
+    // Unfinished rows still count as arrivals, so read this before the end date
+    const rawCreatedDate = readColumn(row, 'created')
+    const createdDate = rawCreatedDate ? parseDate(rawCreatedDate, dateFormat) : null
+    if (createdDate !== null) {
+      arrivals.push({ id: mappedId || null, created: createdDate })
+    } else if (rawCreatedDate) {
+      addIssue('warning', `Created date "${rawCreatedDate}" is not a valid ${formatLabel} date`)
+    }
+
+    const rawStartDate = readColumn(row, 'start')
+    const startDate = rawStartDate ? parseDate(rawStartDate, dateFormat) : null
+    const rawEndDate = readColumn(row, 'end')
+    const endDate = rawEndDate ? parseDate(rawEndDate, dateFormat) : null
+
+    const rawCycleTime = readColumn(row, 'cycleTime')
+    const columnCycleTime = parseFloat(rawCycleTime)
+    const hasColumnCycleTime = columnCycleTime > 0
+    const estimate = parseInt(readColumn(row, 'estimate'), 10)
+
+    // Without an end date, a cycle time column still says the item finished
+    if (endDate === null && hasColumnCycleTime) {
+      const undated: UndatedWorkItem = {
+        key: `${id}-${tableIndex}-${index}`,
+        id,
+        source: table.name,
+        sourceIndex: tableIndex,
+        line,
+        startDate,
+        cycleTime: columnCycleTime,
+        estimate: isNaN(estimate) ? null : estimate,
+        type: readColumn(row, 'type') || null,
+        team: readColumn(row, 'team') || null,
+        fields: row
+      }
+      undatedItems.push(undated)
+      if (!mappedId) {
+        unidentified.add(undated)
+      }
+      // Files with no End Date column at all would flag every row
+      if (mapping.end) {
+        addIssue('warning', rawEndDate
+          ? `End date "${rawEndDate}" is not a valid ${formatLabel} date, so only analyses without dates use this row`
+          : 'Missing end date, so only analyses without dates use this row')
+      }
+      return
+    }
+
+    if (!rawEndDate) {
+      // Started but unfinished rows still count as work in progress
+      if (startDate !== null) {
+        inProgress.push({ id: mappedId || null, start: startDate })
+      }
+      addIssue('skipped', 'Missing end date')
+      return
+    }
+    if (endDate === null) {
+      addIssue('skipped', `End date "${rawEndDate}" is not a valid ${formatLabel} date`)
+      return
+    }
+
+    if (rawStartDate && startDate === null) {
+      addIssue('warning', `Start date "${rawStartDate}" is not a valid ${formatLabel} date`)
+    }
+    if (startDate !== null && endDate < startDate) {
+      addIssue('warning', `End date ${rawEndDate} is before start date ${rawStartDate}`)
+    }
+
+    const derivedCycleTime = startDate !== null ? countCycleTimeDays(startDate, endDate, options) : null
+
+    // Prefer the cycle time column, falling back to the dates when it's blank
+    const cycleTimeMismatch = hasColumnCycleTime && derivedCycleTime !== null && Math.round(columnCycleTime) !== derivedCycleTime
+
+    if (rawCycleTime && !hasColumnCycleTime) {
+      addIssue('warning', `Cycle time "${rawCycleTime}" is not a positive number`)
+    }
+    if (cycleTimeMismatch) {
+      addIssue('warning', `Cycle time ${columnCycleTime} disagrees with start/end dates (${derivedCycleTime} days)`)
+    }
+
+    const item: WorkItem = {
+      key: `${id}-${tableIndex}-${index}`,
+      id,
+      source: table.name,
+      sourceIndex: tableIndex,
+      line,
+      startDate,
+      endDate,
+      // Excel serials mean nothing to a reader, so show those as dates
+      originalEndDate: dateFormat === 'excel' ? formatDate(endDate) : rawEndDate,
+      cycleTime: hasColumnCycleTime ? columnCycleTime : derivedCycleTime,
+      derivedCycleTime,
+      cycleTimeMismatch,
+      estimate: isNaN(estimate) ? null : estimate,
+      type: readColumn(row, 'type') || null,
+      team: readColumn(row, 'team') || null,
+      fields: row
+    }
+    items.push(item)
+    if (!mappedId) {
+      unidentified.add(item)
+    }
+  })
+
+  // Parser complaints about blank lines just repeat the empty row issues
+  const parseIssues = table.issues
+    .filter(issue => issue.line === null || !emptyLines.has(issue.line))
+    .map(issue => ({ ...issue, source: table.name, sourceIndex: tableIndex }))
+
+  return { items, undatedItems, unidentified, arrivals, inProgress, issues: [...parseIssues, ...issues] }
+}
+
+const describeRow = (item: WorkItem) => `${item.source} line ${item.line}`
+
+// Resolve items sharing an ID according to the policy. Items arrive in upload
+// order, so later files come after earlier ones.
+function removeDuplicates(items: WorkItem[], unidentified: Set<UndatedWorkItem>, policy: DuplicatePolicy): { items: WorkItem[], issues: DataIssue[] } {
+  const issues: DataIssue[] = []
+  const keptById = new Map<string, WorkItem>()
+  const dropped = new Set<WorkItem>()
+
+  items.forEach(item => {
+    // Rows without an ID can't be compared
+    if (unidentified.has(item)) return
+
+    const kept = keptById.get(item.id)
+    if (!kept) {
+      keptById.set(item.id, item)
+      return
+    }
+
+    if (policy === 'keep-all') {
+      issues.push({
+        source: item.source,
+        sourceIndex: item.sourceIndex,
+        line: item.line,
+        itemId: item.id,
+        severity: 'warning',
+        reason: `Duplicate ID (also on ${describeRow(kept)})`
+      })
+      return
+    }
+
+    const replace = policy === 'last-file' || (policy === 'latest-end' && item.endDate >= kept.endDate)
+    const loser = replace ? kept : item
+    const winner = replace ? item : kept
+    if (replace) {
+      keptById.set(item.id, item)
+    }
+    dropped.add(loser)
+    issues.push({
+      source: loser.source,
+      sourceIndex: loser.sourceIndex,
+      line: loser.line,
+      itemId: loser.id,
+      severity: 'skipped',
+      reason: `Duplicate ID, kept ${describeRow(winner)} instead`
+    })
+  })
+
+  return { items: items.filter(item => !dropped.has(item)), issues }
+}
+
+export function buildWorkItems(tables: RawTable[], mapping: ColumnMapping, options: ImportOptions): WorkItemDataset {
+  const columns = getColumns(allRows(tables))
+  const read = tables.map((table, tableIndex) => readTable(table, tableIndex, mapping, options))
+
+  const readItems = read.flatMap(result => result.items)
+  const unidentified = new Set(read.flatMap(result => Array.from(result.unidentified)))
+  const deduplicated = removeDuplicates(readItems, unidentified, options.duplicatePolicy)
+
+  const items = deduplicated.items.sort((a, b) => a.endDate - b.endDate)
+
+  // Undated rows can't be ordered by end date, so the first row of each ID is
+  // kept, and none whose ID also finished with a date
+  const undatedIds = new Set(items.map(item => item.id))
+  const undatedItems: UndatedWorkItem[] = []
+  const undatedIssues: DataIssue[] = []
+  read.forEach(result => result.undatedItems.forEach(item => {
+    if (unidentified.has(item)) {
+      undatedItems.push(item)
+      return
+    }
+    if (undatedIds.has(item.id)) {
+      undatedIssues.push({
+        source: item.source,
+        sourceIndex: item.sourceIndex,
+        line: item.line,
+        itemId: item.id,
+        severity: 'skipped',
+        reason: 'Duplicate ID, kept another row instead'
+      })
+      return
+    }
+    undatedIds.add(item.id)
+    undatedItems.push(item)
+  }))
+
+  // An issue exported twice only arrived once
+  const arrivalsById = new Map<string, number>()
+  const arrivals: number[] = []
+  read.flatMap(result => result.arrivals).forEach(({ id, created }) => {
+    if (id === null) {
+      arrivals.push(created)
+    } else if (!arrivalsById.has(id)) {
+      arrivalsById.set(id, created)
+    }
+  })
+  arrivals.push(...Array.from(arrivalsById.values()))
+  arrivals.sort((a, b) => a - b)
+
+  // An unfinished row in one export may be finished in another
+  const finishedIds = new Set(items.map(item => item.id))
+  const inProgressById = new Map<string, number>()
+  const inProgress: number[] = []
+  read.flatMap(result => result.inProgress).forEach(({ id, start }) => {
+    if (id === null) {
+      inProgress.push(start)
+    } else if (!finishedIds.has(id) && !inProgressById.has(id)) {
+      inProgressById.set(id, start)
+    }
+  })
+  inProgress.push(...Array.from(inProgressById.values()))
+  inProgress.sort((a, b) => a - b)
+
+  // Keep issues grouped by file, in line order
+  const issues = [...read.flatMap(result => result.issues), ...deduplicated.issues, ...undatedIssues].sort((a, b) =>
+    (a.sourceIndex ?? -1) - (b.sourceIndex ?? -1) || (a.line ?? 0) - (b.line ?? 0)
+  )
+
+  return { columns, mapping, options, items, undatedItems, arrivals, inProgress, issues }
+}
+
+export function hasCycleTime<T extends UndatedWorkItem>(item: T): item is T & { cycleTime: number } {
+  return item.cycleTime !== null
+}
+
+// Grouping by a column with more values than this isn't readable on a chart
+export const MAX_CATEGORIES = 20
+
+// Blank values form a group of their own
+export const BLANK_CATEGORY = '(blank)'
+
+// The columns mapped to Type and Team are read from the item's own fields
+export function categoryOf(item: WorkItem, column: string, mapping: ColumnMapping): string {
+  if (column === mapping.type) return item.type || BLANK_CATEGORY
+  if (column === mapping.team) return item.team || BLANK_CATEGORY
+  return item.fields[column]?.toString().trim() || BLANK_CATEGORY
+}
+
+// Columns whose values repeat across items, such as type, team or assignee,
+// leaving out the columns mapped to IDs, dates and numbers. The columns mapped
+// to Type and Team come first.
+export function categoryColumns(dataset: WorkItemDataset): string[] {
+  const { mapping } = dataset
+  const excluded = new Set([mapping.id, mapping.start, mapping.end, mapping.created, mapping.cycleTime, mapping.estimate])
+  const mapped = [mapping.type, mapping.team].filter((column): column is string => !!column)
+
+  const columns = dataset.columns.filter(column => {
+    if (excluded.has(column)) return false
+    const values = new Set(dataset.items.map(item => categoryOf(item, column, mapping)))
+    if (values.size === 1 && values.has(BLANK_CATEGORY)) return false
+    return values.size <= MAX_CATEGORIES && values.size < dataset.items.length
+  })
+  return [
+    ...mapped.filter(column => columns.includes(column)),
+    ...columns.filter(column => !mapped.includes(column))
+  ]
+}
+
+// Group by the Type column when one is mapped, otherwise by Team
+export function defaultCategoryColumn(dataset: WorkItemDataset, columns: string[]): string | null {
+  const { type, team } = dataset.mapping
+  if (type && columns.includes(type)) return type
+  if (team && columns.includes(team)) return team
+  return null
+}
+
+// Name a category column after the role it's mapped to, if any
+export function categoryColumnLabel(mapping: ColumnMapping, column: string): string {
+  if (column === mapping.type) return `${column} (Type)`
+  if (column === mapping.team) return `${column} (Team)`
+  return column
+}